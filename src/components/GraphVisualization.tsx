@@ -1,30 +1,71 @@
 import { useEffect, useRef, useState } from 'react';
-import { ForceDirectedGraph, type GraphData, type GraphNode } from '@/lib/forceGraph';
+import type { GraphData, GraphNode } from '@/lib/forceGraph';
+import { ForceSimulation } from '@/lib/forceSimulation';
+import { AnimatedLayout, LAYOUT_ENGINES, seedPositions, type LayoutHandle, type LayoutKind } from '@/lib/graphLayouts';
+import type { GraphRenderer } from '@/lib/graphRenderer';
+import { Canvas2DRenderer } from '@/lib/canvasRenderer';
+import { WebGLGraphRenderer } from '@/lib/webglRenderer';
+import { fitViewport, IDENTITY_VIEWPORT, panBy, screenToWorld, zoomAt, type Viewport } from '@/lib/viewport';
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
 
 interface GraphVisualizationProps {
   data: GraphData;
   width?: number;
   height?: number;
   onNodeClick?: (node: GraphNode) => void;
+  /** Ordered pubkeys of a path whose hops should be highlighted */
+  highlightedPath?: string[];
+  /** How nodes are placed; switching animates from the current positions */
+  layout?: LayoutKind;
   className?: string;
 }
 
+// Canvas 2D slows down with thousands of nodes; WebGL takes over from here
+const WEBGL_NODE_THRESHOLD = 2000;
+
+// Pointers moving less than this many pixels tap rather than drag
+const TAP_THRESHOLD = 4;
+// Two taps on a node within this many milliseconds pin or unpin it
+const DOUBLE_TAP_MS = 300;
+// Zoom factor per pixel of wheel scroll
+const WHEEL_ZOOM_SPEED = 0.002;
+const BUTTON_ZOOM_FACTOR = 1.25;
+
+/** What the pointers on the canvas are doing */
+type Gesture =
+  | { type: 'drag'; nodeId: string; wasPinned: boolean; offsetX: number; offsetY: number; startX: number; startY: number; moved: boolean }
+  | { type: 'pan'; startX: number; startY: number; moved: boolean }
+  | { type: 'pinch'; distance: number; midX: number; midY: number };
+
 export function GraphVisualization({
   data,
   width = 800,
   height = 600,
   onNodeClick,
+  highlightedPath,
+  layout = 'force',
   className = '',
 }: GraphVisualizationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [graph, setGraph] = useState<ForceDirectedGraph | null>(null);
+  const [graph, setGraph] = useState<LayoutHandle | null>(null);
+  const graphRef = useRef<LayoutHandle | null>(null);
+  const layoutRef = useRef(layout);
   const [hoveredNode, setHoveredNode] = useState<GraphNode | null>(null);
   const [dimensions, setDimensions] = useState({ width, height });
   const animationFrameRef = useRef<number>();
+  const rendererRef = useRef<GraphRenderer | null>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
   const imageCache = useRef<Map<string, HTMLImageElement>>(new Map());
+  // Pan and zoom live in refs: the animation loop reads them every frame without re-rendering
+  const viewportRef = useRef<Viewport>(IDENTITY_VIEWPORT);
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const gestureRef = useRef<Gesture | null>(null);
+  // A single tap waits out the double-tap window before it counts as a click
+  const pendingTapRef = useRef<{ nodeId: string; timer: ReturnType<typeof setTimeout> } | null>(null);
 
   // Handle window resize
   useEffect(() => {
@@ -46,12 +87,30 @@ export function GraphVisualization({
   // Initialize graph
   useEffect(() => {
     if (data.nodes.length > 0) {
-      const newGraph = new ForceDirectedGraph(data, dimensions.width, dimensions.height);
+      const seeded = seedPositions(data, graphRef.current?.getNodes() ?? []);
+      const newGraph = layout === 'force'
+        ? new ForceSimulation(seeded, dimensions.width, dimensions.height)
+        : new AnimatedLayout(seeded, dimensions.width, dimensions.height, LAYOUT_ENGINES[layout]);
+
+      // Structural layouts can outgrow the canvas; frame where the nodes are headed
+      if (newGraph instanceof AnimatedLayout && layoutRef.current !== layout) {
+        const targets = newGraph.getTargets();
+        viewportRef.current = fitViewport(
+          newGraph.getNodes().map(node => ({ ...targets.get(node.id)!, radius: node.radius })),
+          dimensions.width,
+          dimensions.height
+        );
+      }
+      layoutRef.current = layout;
+
+      graphRef.current = newGraph;
       setGraph(newGraph);
+      return () => newGraph.dispose();
     } else {
+      graphRef.current = null;
       setGraph(null);
     }
-  }, [data, dimensions.width, dimensions.height]);
+  }, [data, dimensions.width, dimensions.height, layout]);
 
   // Preload avatar images
   useEffect(() => {
@@ -67,103 +126,73 @@ export function GraphVisualization({
     }
   }, [data.nodes]);
 
-  // Animation loop
-  useEffect(() => {
-    if (!graph || !canvasRef.current) return;
+  // Pick the rendering backend; a new canvas is mounted when it changes.
+  // A canvas that once had a WebGL context can't give a 2D one, so a failed
+  // or lost WebGL renderer falls back by switching backends, not in place
+  const [webglFailed, setWebglFailed] = useState(false);
+  const rendererKind = data.nodes.length >= WEBGL_NODE_THRESHOLD &&
+    typeof WebGL2RenderingContext !== 'undefined' &&
+    !webglFailed
+    ? 'webgl'
+    : 'canvas';
 
+  useEffect(() => {
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    let iterations = 0;
-    const maxIterations = 300; // Run simulation for 300 frames
-
-    const animate = () => {
-      if (iterations < maxIterations) {
-        graph.tick();
-        iterations++;
+    if (!canvas) return;
+
+    if (rendererKind === 'webgl') {
+      const labels = overlayRef.current?.getContext('2d');
+      const renderer = labels ? WebGLGraphRenderer.create(canvas, labels) : null;
+      if (!renderer) {
+        setWebglFailed(true);
+        return;
       }
 
-      // Clear canvas
-      ctx.clearRect(0, 0, dimensions.width, dimensions.height);
+      const handleContextLost = (e: Event) => {
+        e.preventDefault();
+        console.warn('[GraphVisualization] WebGL context lost, switching to Canvas 2D');
+        rendererRef.current = null;
+        setWebglFailed(true);
+      };
+      canvas.addEventListener('webglcontextlost', handleContextLost);
+
+      rendererRef.current = renderer;
+      return () => {
+        canvas.removeEventListener('webglcontextlost', handleContextLost);
+        renderer.dispose();
+        rendererRef.current = null;
+      };
+    }
 
-      // Draw links
-      ctx.strokeStyle = 'rgba(148, 163, 184, 0.3)'; // slate-400 with opacity
-      ctx.lineWidth = 1;
+    const ctx = canvas.getContext('2d');
+    const renderer = ctx ? new Canvas2DRenderer(ctx) : null;
 
-      for (const link of graph.getLinks()) {
-        const sourceNode = graph.getNodes().find(n => n.id === link.source);
-        const targetNode = graph.getNodes().find(n => n.id === link.target);
+    rendererRef.current = renderer;
+    return () => {
+      renderer?.dispose();
+      rendererRef.current = null;
+    };
+  }, [rendererKind]);
 
-        if (sourceNode && targetNode) {
-          ctx.beginPath();
-          ctx.moveTo(sourceNode.x, sourceNode.y);
-          ctx.lineTo(targetNode.x, targetNode.y);
-          ctx.stroke();
-        }
-      }
+  // Animation loop; the simulation runs in a worker, so each frame only draws the latest positions
+  useEffect(() => {
+    if (!graph) return;
 
-      // Draw nodes
-      for (const node of graph.getNodes()) {
-        const isHovered = hoveredNode?.id === node.id;
-
-        // Draw avatar if available
-        const img = node.avatar ? imageCache.current.get(node.avatar) : undefined;
-        if (img && img.complete) {
-          ctx.save();
-          ctx.beginPath();
-          ctx.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
-          ctx.closePath();
-          ctx.clip();
-          ctx.drawImage(
-            img,
-            node.x - node.radius,
-            node.y - node.radius,
-            node.radius * 2,
-            node.radius * 2
-          );
-          ctx.restore();
-
-          // Border
-          ctx.strokeStyle = isHovered ? '#a855f7' : node.color;
-          ctx.lineWidth = isHovered ? 3 : 2;
-          ctx.beginPath();
-          ctx.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
-          ctx.stroke();
-        } else {
-          // Draw colored circle if no avatar
-          ctx.fillStyle = node.color;
-          ctx.strokeStyle = isHovered ? '#a855f7' : '#ffffff';
-          ctx.lineWidth = isHovered ? 3 : 2;
-          ctx.beginPath();
-          ctx.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
-          ctx.fill();
-          ctx.stroke();
-        }
-
-        // Draw label on hover or for root node
-        if (isHovered || node.isRoot) {
-          ctx.fillStyle = '#1f2937'; // gray-800
-          ctx.font = node.isRoot ? 'bold 12px Inter, sans-serif' : '11px Inter, sans-serif';
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'top';
-
-          // Background for label
-          const metrics = ctx.measureText(node.label);
-          const padding = 4;
-          ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
-          ctx.fillRect(
-            node.x - metrics.width / 2 - padding,
-            node.y + node.radius + 4,
-            metrics.width + padding * 2,
-            16
-          );
-
-          // Draw label text
-          ctx.fillStyle = '#1f2937';
-          ctx.fillText(node.label, node.x, node.y + node.radius + 6);
-        }
-      }
+    const maxWeight = graph.getLinks().reduce((max, link) => Math.max(max, link.weight ?? 0), 0);
+
+    const animate = () => {
+      rendererRef.current?.render({
+        nodes: graph.getNodes(),
+        links: graph.getLinks(),
+        getNode: (id) => graph.getNode(id),
+        width: dimensions.width,
+        height: dimensions.height,
+        viewport: viewportRef.current,
+        hoveredId: hoveredNode?.id,
+        highlightedPath,
+        images: imageCache.current,
+        maxWeight,
+      });
 
       animationFrameRef.current = requestAnimationFrame(animate);
     };
@@ -175,47 +204,221 @@ export function GraphVisualization({
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [graph, dimensions, hoveredNode]);
+  }, [graph, dimensions, hoveredNode, highlightedPath, rendererKind]);
+
+  // Wheel zoom around the cursor. React registers wheel listeners as passive,
+  // so page scrolling can only be prevented from a native listener
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      viewportRef.current = zoomAt(
+        viewportRef.current,
+        e.clientX - rect.left,
+        e.clientY - rect.top,
+        Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED)
+      );
+    };
 
-  // Handle mouse move
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!graph || !canvasRef.current) return;
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [rendererKind]);
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  // Drop a click still waiting out the double-tap window
+  useEffect(() => () => {
+    if (pendingTapRef.current) clearTimeout(pendingTapRef.current.timer);
+  }, []);
 
-    const node = graph.findNodeAt(x, y);
-    setHoveredNode(node || null);
+  const pointerPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
 
-    // Change cursor
-    canvasRef.current.style.cursor = node ? 'pointer' : 'default';
+  // Distance and midpoint of the first two pointers
+  const pinchGesture = (): Extract<Gesture, { type: 'pinch' }> => {
+    const [a, b] = [...pointersRef.current.values()];
+    return { type: 'pinch', distance: Math.hypot(a.x - b.x, a.y - b.y), midX: (a.x + b.x) / 2, midY: (a.y + b.y) / 2 };
   };
 
-  // Handle click
-  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!graph || !canvasRef.current || !onNodeClick) return;
+  // Hand a dragged node back to the layout, unless it was pinned before
+  const releaseDrag = (gesture: Gesture | null) => {
+    if (gesture?.type === 'drag' && gesture.moved && !gesture.wasPinned) {
+      graphRef.current?.setPinned(gesture.nodeId, false);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const graph = graphRef.current;
+    if (!graph) return;
+
+    const point = pointerPosition(e);
+    pointersRef.current.set(e.pointerId, point);
+    e.currentTarget.setPointerCapture(e.pointerId);
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    // A second finger turns any drag or pan into a pinch
+    if (pointersRef.current.size === 2) {
+      releaseDrag(gestureRef.current);
+      gestureRef.current = pinchGesture();
+      return;
+    }
+    if (pointersRef.current.size > 2) return;
 
-    const node = graph.findNodeAt(x, y);
+    const node = graph.findNodeAt(point.x, point.y, viewportRef.current);
     if (node) {
-      onNodeClick(node);
+      const world = screenToWorld(viewportRef.current, point.x, point.y);
+      gestureRef.current = {
+        type: 'drag',
+        nodeId: node.id,
+        wasPinned: !!node.pinned,
+        offsetX: node.x - world.x,
+        offsetY: node.y - world.y,
+        startX: point.x,
+        startY: point.y,
+        moved: false,
+      };
+    } else {
+      gestureRef.current = { type: 'pan', startX: point.x, startY: point.y, moved: false };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const graph = graphRef.current;
+    const canvas = e.currentTarget;
+    if (!graph) return;
+
+    const point = pointerPosition(e);
+    const previous = pointersRef.current.get(e.pointerId);
+    const gesture = gestureRef.current;
+
+    if (!previous || !gesture) {
+      // Hovering with a mouse
+      const node = graph.findNodeAt(point.x, point.y, viewportRef.current);
+      setHoveredNode(node || null);
+      canvas.style.cursor = node ? 'pointer' : 'grab';
+      return;
+    }
+
+    pointersRef.current.set(e.pointerId, point);
+
+    if (gesture.type === 'pinch') {
+      if (pointersRef.current.size < 2) return;
+      const next = pinchGesture();
+      const zoomed = zoomAt(viewportRef.current, next.midX, next.midY, next.distance / gesture.distance);
+      viewportRef.current = panBy(zoomed, next.midX - gesture.midX, next.midY - gesture.midY);
+      gestureRef.current = next;
+      return;
     }
+
+    if (!gesture.moved && Math.hypot(point.x - gesture.startX, point.y - gesture.startY) < TAP_THRESHOLD) {
+      return;
+    }
+    canvas.style.cursor = 'grabbing';
+
+    if (gesture.type === 'drag') {
+      // Pin while dragging, so the layout doesn't pull the node out from under the pointer
+      if (!gesture.moved && !gesture.wasPinned) {
+        graph.setPinned(gesture.nodeId, true);
+      }
+      gesture.moved = true;
+      const world = screenToWorld(viewportRef.current, point.x, point.y);
+      graph.moveNode(gesture.nodeId, world.x + gesture.offsetX, world.y + gesture.offsetY);
+    } else {
+      gesture.moved = true;
+      viewportRef.current = panBy(viewportRef.current, point.x - previous.x, point.y - previous.y);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const graph = graphRef.current;
+    const gesture = gestureRef.current;
+    pointersRef.current.delete(e.pointerId);
+
+    if (gesture?.type === 'pinch') {
+      // Lifting one finger of a pinch pans with the other, without tapping
+      const [remaining] = [...pointersRef.current.values()];
+      gestureRef.current = remaining ? { type: 'pan', startX: remaining.x, startY: remaining.y, moved: true } : null;
+      return;
+    }
+    gestureRef.current = null;
+    e.currentTarget.style.cursor = 'grab';
+
+    if (!graph || gesture?.type !== 'drag') return;
+    if (gesture.moved || e.type === 'pointercancel') {
+      releaseDrag(gesture);
+      return;
+    }
+
+    // A tap on a node: the second of two quick taps toggles its pin instead of clicking.
+    // Clicking can expand the node and rebuild the graph, so it only fires once no second tap came
+    const pending = pendingTapRef.current;
+    if (pending) {
+      clearTimeout(pending.timer);
+      pendingTapRef.current = null;
+      if (pending.nodeId === gesture.nodeId) {
+        graph.setPinned(gesture.nodeId, !gesture.wasPinned);
+        return;
+      }
+    }
+
+    const { nodeId } = gesture;
+    const timer = setTimeout(() => {
+      pendingTapRef.current = null;
+      const node = graphRef.current?.getNode(nodeId);
+      if (node) {
+        onNodeClick?.(node);
+      }
+    }, DOUBLE_TAP_MS);
+    pendingTapRef.current = { nodeId, timer };
+  };
+
+  const zoomBy = (factor: number) => {
+    viewportRef.current = zoomAt(viewportRef.current, dimensions.width / 2, dimensions.height / 2, factor);
+  };
+
+  const fitToView = () => {
+    if (!graph) return;
+    viewportRef.current = fitViewport(graph.getNodes(), dimensions.width, dimensions.height);
   };
 
   return (
-    <div ref={containerRef} className={className}>
+    <div ref={containerRef} className={`relative ${className}`}>
       <canvas
+        key={rendererKind}
         ref={canvasRef}
         width={dimensions.width}
         height={dimensions.height}
-        onMouseMove={handleMouseMove}
-        onClick={handleClick}
-        className="w-full h-full bg-slate-50 dark:bg-slate-900 rounded-lg"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setHoveredNode(null)}
+        className="w-full h-full bg-slate-50 dark:bg-slate-900 rounded-lg touch-none"
       />
+      {rendererKind === 'webgl' && (
+        // Labels are text, which WebGL doesn't draw
+        <canvas
+          ref={overlayRef}
+          width={dimensions.width}
+          height={dimensions.height}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+      )}
+      {graph && (
+        <div className="absolute bottom-4 right-4 z-10 flex flex-col gap-1">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoomBy(BUTTON_ZOOM_FACTOR)} title="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoomBy(1 / BUTTON_ZOOM_FACTOR)} title="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={fitToView} title="Fit to view">
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,80 @@
+import { Eye, EyeOff, Focus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { CommunitySummary } from '@/lib/communityDetection';
+import { cn } from '@/lib/utils';
+
+interface ClusterPanelProps {
+  clusters: CommunitySummary[];
+  hiddenClusters: Set<number>;
+  isolatedCluster: number | null;
+  onToggleHidden: (id: number) => void;
+  onToggleIsolated: (id: number) => void;
+}
+
+// Long tails of tiny clusters aren't worth listing
+const MAX_LISTED_CLUSTERS = 10;
+
+export function ClusterPanel({
+  clusters,
+  hiddenClusters,
+  isolatedCluster,
+  onToggleHidden,
+  onToggleIsolated,
+}: ClusterPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Communities</CardTitle>
+        <CardDescription>
+          {clusters.length} {clusters.length === 1 ? 'cluster' : 'clusters'} detected
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {clusters.slice(0, MAX_LISTED_CLUSTERS).map((cluster) => {
+          const isHidden = hiddenClusters.has(cluster.id);
+          const isIsolated = isolatedCluster === cluster.id;
+
+          return (
+            <div
+              key={cluster.id}
+              className={cn('flex items-start gap-2', isHidden && 'opacity-50')}
+            >
+              <span
+                className="mt-1 h-3 w-3 shrink-0 rounded-full"
+                style={{ backgroundColor: cluster.color }}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Cluster {cluster.id + 1}</span>
+                  <span className="text-muted-foreground">{cluster.size}</span>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {cluster.topMembers.map(node => node.label).join(', ')}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onToggleHidden(cluster.id)}
+                title={isHidden ? 'Show cluster' : 'Hide cluster'}
+              >
+                {isHidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant={isIsolated ? 'secondary' : 'ghost'}
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onToggleIsolated(cluster.id)}
+                title={isIsolated ? 'Show all clusters' : 'Isolate cluster'}
+              >
+                <Focus className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
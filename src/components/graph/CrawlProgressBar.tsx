@@ -0,0 +1,49 @@
+import { Loader2, RotateCw, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { CrawlProgress } from '@/hooks/useSocialGraph';
+
+interface CrawlProgressBarProps {
+  progress: CrawlProgress | undefined;
+  isCrawling: boolean;
+  onStop: () => void;
+  onRestart: () => void;
+}
+
+/** Overlay showing how far a streaming crawl has come, with stop and restart controls */
+export function CrawlProgressBar({ progress, isCrawling, onStop, onRestart }: CrawlProgressBarProps) {
+  if (isCrawling) {
+    const percent = progress && progress.total > 0 ? (progress.current / progress.total) * 100 : 0;
+
+    return (
+      <div className="absolute top-4 left-4 right-4 z-10 bg-white/90 dark:bg-slate-800/90 backdrop-blur-sm rounded-lg p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="flex items-center gap-2 font-medium">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {progress?.phase === 'profiles' ? 'Loading profiles' : 'Crawling contact lists'}
+          </span>
+          <Button variant="outline" size="sm" className="h-7" onClick={onStop}>
+            <Square className="mr-1 h-3 w-3" />
+            Stop
+          </Button>
+        </div>
+        <Progress value={percent} className="h-1.5" />
+        <p className="text-xs text-muted-foreground">{progress?.status ?? 'Connecting to relays'}</p>
+      </div>
+    );
+  }
+
+  if (progress?.phase === 'cancelled') {
+    return (
+      <div className="absolute top-4 left-4 z-10 bg-white/90 dark:bg-slate-800/90 backdrop-blur-sm rounded-lg p-3 flex items-center gap-3 text-xs">
+        <span className="text-muted-foreground">Crawl stopped, showing partial graph</span>
+        <Button variant="outline" size="sm" className="h-7" onClick={onRestart}>
+          <RotateCw className="mr-1 h-3 w-3" />
+          Restart
+        </Button>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,54 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/useToast';
+import { downloadFile } from '@/lib/downloadFile';
+import { GRAPH_EXPORT_FORMATS, type ExportableGraph, type GraphExportFormat } from '@/lib/graphExport';
+
+interface ExportMenuProps {
+  graph: ExportableGraph;
+}
+
+/** Download the current graph in one of the supported file formats */
+export function ExportMenu({ graph }: ExportMenuProps) {
+  const { toast } = useToast();
+
+  const handleExport = (format: GraphExportFormat) => {
+    const { extension, mimeType, serialize } = GRAPH_EXPORT_FORMATS[format];
+
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(`nostr-graph-${date}.${extension}`, serialize(graph), `${mimeType}; charset=utf-8`);
+    } catch (error) {
+      console.error('Error exporting graph:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Could not create the export file. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {GRAPH_EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
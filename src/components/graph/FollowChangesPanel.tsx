@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { NostrMetadata } from '@nostrify/nostrify';
+import { Download, UserMinus, UserPlus } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuthor } from '@/hooks/useAuthor';
+import { downloadFile } from '@/lib/downloadFile';
+import {
+  countChanges,
+  diffSnapshots,
+  followDiffToCsv,
+  FOLLOW_CHANGE_LABELS,
+  type FollowChangeKind,
+  type FollowSnapshot,
+} from '@/lib/followSnapshots';
+import { genUserName } from '@/lib/genUserName';
+
+interface FollowChangesPanelProps {
+  snapshot: FollowSnapshot;
+  /** Snapshots from earlier visits, newest first */
+  previousSnapshots: FollowSnapshot[];
+}
+
+// Keep long lists short; the export has everything
+const MAX_LISTED_PER_KIND = 25;
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+function ChangeRow({ pubkey, added }: { pubkey: string; added: boolean }) {
+  const author = useAuthor(pubkey);
+  const metadata = author.data?.metadata;
+  const displayName = metadata?.display_name || metadata?.name || genUserName(pubkey);
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {added ? (
+        <UserPlus className="h-3 w-3 shrink-0 text-green-600" />
+      ) : (
+        <UserMinus className="h-3 w-3 shrink-0 text-red-600" />
+      )}
+      <Avatar className="h-6 w-6">
+        <AvatarImage src={metadata?.picture} alt={displayName} />
+        <AvatarFallback className="text-[10px]">{displayName.slice(0, 2).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <span className="truncate">{displayName}</span>
+    </div>
+  );
+}
+
+export function FollowChangesPanel({ snapshot, previousSnapshots }: FollowChangesPanelProps) {
+  const queryClient = useQueryClient();
+  const [baselineAt, setBaselineAt] = useState<number | undefined>(undefined);
+
+  const baseline = previousSnapshots.find(s => s.takenAt === baselineAt) ?? previousSnapshots[0];
+  const diff = useMemo(() => (baseline ? diffSnapshots(baseline, snapshot) : null), [baseline, snapshot]);
+
+  const handleExport = () => {
+    if (!diff) return;
+
+    // Use whatever profile names have been loaded for the rows
+    const labels = new Map<string, string>();
+    for (const kind of Object.keys(FOLLOW_CHANGE_LABELS) as FollowChangeKind[]) {
+      for (const pubkey of diff[kind]) {
+        const author = queryClient.getQueryData<{ metadata?: NostrMetadata }>(['author', pubkey]);
+        const name = author?.metadata?.display_name || author?.metadata?.name;
+        if (name) labels.set(pubkey, name);
+      }
+    }
+
+    downloadFile(
+      `follow-changes-${snapshot.rootPubkey.slice(0, 8)}-${snapshot.takenAt}.csv`,
+      followDiffToCsv(diff, labels),
+      'text/csv; charset=utf-8'
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Changes Since Last Visit</CardTitle>
+        <CardDescription>
+          {diff
+            ? `${countChanges(diff)} changes since ${formatDate(diff.since)}`
+            : 'Snapshot saved. Changes will show up on your next visit.'}
+        </CardDescription>
+      </CardHeader>
+      {diff && (
+        <CardContent className="space-y-4">
+          {previousSnapshots.length > 1 && (
+            <Select
+              value={String(baseline.takenAt)}
+              onValueChange={(value) => setBaselineAt(Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {previousSnapshots.map((s) => (
+                  <SelectItem key={s.takenAt} value={String(s.takenAt)}>
+                    Compare with {formatDate(s.takenAt)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {(Object.keys(FOLLOW_CHANGE_LABELS) as FollowChangeKind[]).map((kind) => diff[kind].length > 0 && (
+            <div key={kind} className="space-y-2">
+              <div className="flex items-center justify-between text-sm font-medium">
+                <span>{FOLLOW_CHANGE_LABELS[kind]}</span>
+                <span className="text-muted-foreground">{diff[kind].length}</span>
+              </div>
+              {diff[kind].slice(0, MAX_LISTED_PER_KIND).map((pubkey) => (
+                <ChangeRow
+                  key={pubkey}
+                  pubkey={pubkey}
+                  added={kind === 'newFollowing' || kind === 'newFollowers'}
+                />
+              ))}
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={handleExport}
+            disabled={countChanges(diff) === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+import { History, UserMinus, UserPlus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { followsAt, type FollowHistory } from '@/lib/followHistory';
+import { profileLabel, type NostrProfile } from '@/lib/graphCrawl';
+import { cn } from '@/lib/utils';
+
+interface FollowTimelineCardProps {
+  history: FollowHistory;
+  profiles: Map<string, NostrProfile>;
+  /** Selected moment in unix seconds, or undefined for the newest version */
+  at: number | undefined;
+  onAtChange: (at: number | undefined) => void;
+}
+
+// Only list the most recent changes before the selected date
+const MAX_LISTED_CHANGES = 20;
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+export function FollowTimelineCard({ history, profiles, at, onAtChange }: FollowTimelineCardProps) {
+  const { versions, changes } = history;
+
+  if (versions.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Follow History
+          </CardTitle>
+          <CardDescription>No contact list versions found on your relays</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const start = versions[0].createdAt;
+  const end = versions[versions.length - 1].createdAt;
+  const selected = at ?? end;
+  const visibleChanges = changes.filter(change => change.createdAt <= selected).reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Follow History
+        </CardTitle>
+        <CardDescription>
+          {versions.length} {versions.length === 1 ? 'version' : 'versions'} since {formatDate(start)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {end > start && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>{formatDate(selected)}</span>
+              <span className="text-muted-foreground">
+                {followsAt(history, selected).length} follows
+              </span>
+            </div>
+            <Slider
+              value={[selected]}
+              onValueChange={(v) => onAtChange(v[0] >= end ? undefined : v[0])}
+              min={start}
+              max={end}
+              step={Math.max(1, Math.floor((end - start) / 500))}
+            />
+          </div>
+        )}
+
+        <div className="space-y-1 max-h-72 overflow-y-auto">
+          {visibleChanges.slice(0, MAX_LISTED_CHANGES).map((change) => (
+            <button
+              key={`${change.type}:${change.pubkey}:${change.createdAt}`}
+              type="button"
+              onClick={() => onAtChange(change.createdAt >= end ? undefined : change.createdAt)}
+              className="w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-muted"
+            >
+              {change.type === 'follow' ? (
+                <UserPlus className="h-3 w-3 shrink-0 text-green-600" />
+              ) : (
+                <UserMinus className="h-3 w-3 shrink-0 text-red-600" />
+              )}
+              <span className={cn('flex-1 truncate', change.type === 'unfollow' && 'text-muted-foreground')}>
+                {profileLabel(profiles.get(change.pubkey), change.pubkey)}
+              </span>
+              <span className="text-xs text-muted-foreground shrink-0">{formatDate(change.createdAt)}</span>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/useToast';
+import { parseGraphFiles, type ImportedGraph } from '@/lib/graphImport';
+
+interface ImportGraphButtonProps {
+  onImport: (name: string, graph: ImportedGraph) => void;
+}
+
+/** Load a JSON, GraphML or CSV graph file from disk */
+export function ImportGraphButton({ onImport }: ImportGraphButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const contents = await Promise.all(
+        files.map(async (file) => ({ name: file.name, content: await file.text() }))
+      );
+      onImport(files.map(file => file.name).join(', '), parseGraphFiles(contents));
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.graphml,.xml,.csv"
+        multiple
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button variant="outline" className="w-full" onClick={() => inputRef.current?.click()}>
+        <Upload className="mr-2 h-4 w-4" />
+        Import graph file
+      </Button>
+    </>
+  );
+}
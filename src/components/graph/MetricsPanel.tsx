@@ -0,0 +1,103 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { GraphNode } from '@/lib/forceGraph';
+import { NODE_METRIC_LABELS, type GraphMetrics, type NodeMetric } from '@/lib/graphMetrics';
+
+interface MetricsPanelProps {
+  metrics: GraphMetrics;
+  nodes: GraphNode[];
+}
+
+const TOP_NODE_COUNT = 10;
+
+// Degrees and core numbers are counts; everything else is a ratio
+const INTEGER_METRICS: NodeMetric[] = ['inDegree', 'outDegree', 'coreNumber'];
+
+const formatMetric = (metric: NodeMetric, value: number) =>
+  INTEGER_METRICS.includes(metric) ? String(value) : value.toFixed(3);
+
+export function MetricsPanel({ metrics, nodes }: MetricsPanelProps) {
+  const [sortMetric, setSortMetric] = useState<NodeMetric>('inDegree');
+  const [descending, setDescending] = useState(true);
+
+  const topNodes = useMemo(() => {
+    const direction = descending ? -1 : 1;
+    return nodes
+      .filter(node => metrics.nodes.has(node.id))
+      .sort((a, b) =>
+        direction * (metrics.nodes.get(a.id)![sortMetric] - metrics.nodes.get(b.id)![sortMetric])
+      )
+      .slice(0, TOP_NODE_COUNT);
+  }, [metrics, nodes, sortMetric, descending]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Network Metrics</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">Density</span>
+            <span className="font-semibold">{metrics.density.toFixed(3)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">Average degree</span>
+            <span className="font-semibold">{metrics.averageDegree.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">Average clustering</span>
+            <span className="font-semibold">{metrics.averageClustering.toFixed(3)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-muted-foreground">Max k-core</span>
+            <span className="font-semibold">{metrics.maxCore}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Select value={sortMetric} onValueChange={(value) => setSortMetric(value as NodeMetric)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(NODE_METRIC_LABELS) as NodeMetric[]).map(metric => (
+                  <SelectItem key={metric} value={metric} className="text-xs">
+                    {NODE_METRIC_LABELS[metric]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => setDescending(prev => !prev)}
+              title={descending ? 'Highest first' : 'Lowest first'}
+            >
+              {descending ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          <ol className="space-y-1">
+            {topNodes.map((node, index) => (
+              <li key={node.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate">
+                  <span className="text-muted-foreground mr-1">{index + 1}.</span>
+                  {node.label}
+                </span>
+                <span className="font-mono">
+                  {formatMetric(sortMetric, metrics.nodes.get(node.id)![sortMetric])}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { ExternalLink, Loader2, Minimize2, Maximize2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { GraphNode } from '@/lib/forceGraph';
+
+interface NodeActionsCardProps {
+  node: GraphNode;
+  isExpanding: boolean;
+  /** Left out where the graph can't grow, e.g. imported graphs, which stay offline */
+  onExpand?: () => void;
+  onCollapse: () => void;
+  /** Left out for nodes that aren't nostr users */
+  onViewProfile?: () => void;
+  onClose: () => void;
+}
+
+/** Overlay with the actions for the selected node */
+export function NodeActionsCard({
+  node,
+  isExpanding,
+  onExpand,
+  onCollapse,
+  onViewProfile,
+  onClose,
+}: NodeActionsCardProps) {
+  return (
+    <div className="absolute top-4 right-4 z-10 w-56 bg-white/90 dark:bg-slate-800/90 backdrop-blur-sm rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold text-sm truncate">{node.label}</p>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      {!onExpand ? null : node.expanded ? (
+        <Button variant="outline" size="sm" className="w-full" onClick={onCollapse}>
+          <Minimize2 className="mr-2 h-3 w-3" />
+          Collapse follows
+        </Button>
+      ) : (
+        <Button variant="outline" size="sm" className="w-full" onClick={onExpand} disabled={isExpanding}>
+          {isExpanding ? (
+            <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+          ) : (
+            <Maximize2 className="mr-2 h-3 w-3" />
+          )}
+          Expand follows
+        </Button>
+      )}
+      {onViewProfile && (
+        <Button variant="ghost" size="sm" className="w-full" onClick={onViewProfile}>
+          <ExternalLink className="mr-2 h-3 w-3" />
+          View profile
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { ArrowRight, Route } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { profileLabel, type NostrProfile } from '@/lib/graphCrawl';
+import type { PathFinderResult } from '@/lib/pathFinder';
+import { cn } from '@/lib/utils';
+
+interface PathResultsCardProps {
+  result: PathFinderResult;
+  profiles: Map<string, NostrProfile>;
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+// Only list the first few paths; the graph shows all of them
+const MAX_LISTED_PATHS = 10;
+
+export function PathResultsCard({ result, profiles, selectedIndex, onSelect }: PathResultsCardProps) {
+  const { paths, distance, explored, timedOut } = result;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Route className="h-4 w-4" />
+          Connection
+        </CardTitle>
+        <CardDescription>
+          {distance === null
+            ? timedOut
+              ? `Search timed out after exploring ${explored} users`
+              : `No path found after exploring ${explored} users`
+            : `${distance} ${distance === 1 ? 'degree' : 'degrees'} of separation, ${paths.length} shortest ${paths.length === 1 ? 'path' : 'paths'}`}
+        </CardDescription>
+      </CardHeader>
+      {paths.length > 0 && (
+        <CardContent className="space-y-2">
+          {paths.slice(0, MAX_LISTED_PATHS).map((path, index) => (
+            <button
+              key={path.join(',')}
+              type="button"
+              onClick={() => onSelect(index)}
+              className={cn(
+                'w-full rounded-md border p-2 text-left text-xs flex flex-wrap items-center gap-1 transition-colors',
+                index === selectedIndex
+                  ? 'border-amber-500 bg-amber-50 dark:bg-amber-950/30'
+                  : 'hover:bg-muted'
+              )}
+            >
+              {path.map((pubkey, hop) => (
+                <span key={pubkey} className="flex items-center gap-1">
+                  {hop > 0 && <ArrowRight className="h-3 w-3 text-muted-foreground" />}
+                  <span className="font-medium truncate max-w-[7rem]">
+                    {profileLabel(profiles.get(pubkey), pubkey)}
+                  </span>
+                </span>
+              ))}
+            </button>
+          ))}
+          {paths.length > MAX_LISTED_PATHS && (
+            <p className="text-xs text-muted-foreground">
+              And {paths.length - MAX_LISTED_PATHS} more in the graph
+            </p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
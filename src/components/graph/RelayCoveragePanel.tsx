@@ -0,0 +1,43 @@
+import { Radio } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { RelayCoverage } from '@/lib/outboxRouting';
+
+interface RelayCoveragePanelProps {
+  coverage: RelayCoverage;
+}
+
+// The long tail of single-event outbox relays isn't worth listing
+const MAX_LISTED_RELAYS = 8;
+
+export function RelayCoveragePanel({ coverage }: RelayCoveragePanelProps) {
+  const { relays, total, outboxOnly } = coverage;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Radio className="h-4 w-4" />
+          Relay Coverage
+        </CardTitle>
+        <CardDescription>
+          {total} events from {relays.length} {relays.length === 1 ? 'relay' : 'relays'},{' '}
+          {outboxOnly} only found on users' own relays
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {relays.slice(0, MAX_LISTED_RELAYS).map((relay) => (
+          <div key={relay.url} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate" title={relay.url}>
+              {relay.url.replace(/^wss?:\/\//, '')}
+            </span>
+            <span className="flex items-center gap-2 shrink-0">
+              {relay.isDefault && <Badge variant="secondary">default</Badge>}
+              <span className="text-muted-foreground">{relay.events}</span>
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import { Server } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { RelayRecommendation, RelayUsage } from '@/lib/relayOverlap';
+
+interface RelayOverlapPanelProps {
+  usage: RelayUsage[];
+  recommendation: RelayRecommendation;
+  /** Number of users in the graph */
+  members: number;
+}
+
+const MAX_LISTED_RELAYS = 8;
+
+const relayHost = (url: string) => url.replace(/^wss?:\/\//, '');
+
+export function RelayOverlapPanel({ usage, recommendation, members }: RelayOverlapPanelProps) {
+  const { relays, covered, total, unknown } = recommendation;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Server className="h-4 w-4" />
+          Relay Overlap
+        </CardTitle>
+        <CardDescription>
+          {usage.length} {usage.length === 1 ? 'relay' : 'relays'} listed by {members} users
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {usage.slice(0, MAX_LISTED_RELAYS).map(relay => (
+            <div key={relay.url} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate" title={relay.url}>{relayHost(relay.url)}</span>
+              <span className="shrink-0 text-xs text-muted-foreground" title="Users, readers and writers">
+                {relay.users.length} · {relay.read}R / {relay.write}W
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Recommended relays</p>
+          {relays.length > 0 ? (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {relays.map(url => (
+                  <Badge key={url} variant="secondary" title={url}>{relayHost(url)}</Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Reaches {covered} of {total} follows that publish a relay list
+                {unknown > 0 && `; ${unknown} have none`}
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">None of the follows publish a relay list</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
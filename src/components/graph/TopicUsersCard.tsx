@@ -0,0 +1,46 @@
+import { Hash, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { profileLabel, type NostrProfile } from '@/lib/graphCrawl';
+import { topTopicUsers, type TopicStats } from '@/lib/topicGraph';
+
+interface TopicUsersCardProps {
+  topic: TopicStats;
+  profiles?: Map<string, NostrProfile>;
+  onSelectUser: (pubkey: string) => void;
+  onClose: () => void;
+}
+
+/** Overlay listing the graph members who use the selected hashtag most */
+export function TopicUsersCard({ topic, profiles, onSelectUser, onClose }: TopicUsersCardProps) {
+  return (
+    <div className="absolute top-4 right-4 z-10 w-64 bg-white/90 dark:bg-slate-800/90 backdrop-blur-sm rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold text-sm truncate flex items-center gap-1">
+          <Hash className="h-3 w-3" />
+          {topic.tag}
+        </p>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {topic.count} {topic.count === 1 ? 'note' : 'notes'} by {topic.users.size}{' '}
+        {topic.users.size === 1 ? 'member' : 'members'}
+      </p>
+      <ol className="space-y-1">
+        {topTopicUsers(topic).map(([pubkey, count]) => (
+          <li key={pubkey}>
+            <button
+              type="button"
+              onClick={() => onSelectUser(pubkey)}
+              className="w-full flex items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted transition-colors"
+            >
+              <span className="font-medium truncate">{profileLabel(profiles?.get(pubkey), pubkey)}</span>
+              <span className="text-muted-foreground">{count}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { Zap } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { profileLabel, type NostrProfile } from '@/lib/graphCrawl';
+import type { ZapLeaderboardEntry, ZapLeaderboards } from '@/lib/zapFlow';
+
+interface ZapLeaderboardCardProps {
+  leaderboards: ZapLeaderboards;
+  profiles: Map<string, NostrProfile>;
+  onSelect?: (pubkey: string) => void;
+}
+
+function LeaderboardList({
+  entries,
+  profiles,
+  onSelect,
+}: {
+  entries: ZapLeaderboardEntry[];
+  profiles: Map<string, NostrProfile>;
+  onSelect?: (pubkey: string) => void;
+}) {
+  if (entries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No zaps found</p>;
+  }
+
+  return (
+    <ol className="space-y-1">
+      {entries.map((entry, index) => (
+        <li key={entry.pubkey}>
+          <button
+            type="button"
+            onClick={() => onSelect?.(entry.pubkey)}
+            className="w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted transition-colors"
+          >
+            <span className="w-4 text-muted-foreground">{index + 1}</span>
+            <span className="flex-1 font-medium truncate">
+              {profileLabel(profiles.get(entry.pubkey), entry.pubkey)}
+            </span>
+            <span className="font-semibold">{entry.sats.toLocaleString()} sats</span>
+            <span className="text-muted-foreground">×{entry.count}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/** Top zappers and recipients of the zap flow graph */
+export function ZapLeaderboardCard({ leaderboards, profiles, onSelect }: ZapLeaderboardCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Zap className="h-4 w-4" />
+          Zap Leaderboard
+        </CardTitle>
+        <CardDescription>By total sats in the time window</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="zappers">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="zappers">Top zappers</TabsTrigger>
+            <TabsTrigger value="recipients">Top recipients</TabsTrigger>
+          </TabsList>
+          <TabsContent value="zappers">
+            <LeaderboardList entries={leaderboards.zappers} profiles={profiles} onSelect={onSelect} />
+          </TabsContent>
+          <TabsContent value="recipients">
+            <LeaderboardList entries={leaderboards.recipients} profiles={profiles} onSelect={onSelect} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import type { NostrEvent } from '@nostrify/nostrify';
+import type { GraphData, GraphNode } from '@/lib/forceGraph';
+import { fetchLatestEvents, parseProfiles, profileLabel } from '@/lib/graphCrawl';
+import { buildFollowHistory, followsAt } from '@/lib/followHistory';
+
+/**
+ * Collect every stored version of a user's contact list and replay it.
+ * `at` picks the moment (unix seconds) whose follows are returned as `graph`;
+ * without it the newest version is used.
+ */
+export function useFollowHistory(pubkey: string | undefined, at?: number) {
+  const { nostr } = useNostr();
+
+  const query = useQuery({
+    queryKey: ['follow-history', pubkey],
+    queryFn: async (c) => {
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(15000)]);
+
+      // `query` keeps only the newest replaceable event, so read the raw stream
+      const events = new Map<string, NostrEvent>();
+      try {
+        for await (const msg of nostr.req([{ kinds: [3], authors: [pubkey!] }], { signal })) {
+          if (msg[0] === 'EOSE' || msg[0] === 'CLOSED') break;
+          if (msg[0] === 'EVENT' && msg[2].pubkey === pubkey) {
+            events.set(msg[2].id, msg[2]);
+          }
+        }
+      } catch {
+        // Timed out, keep the versions that arrived
+      }
+
+      const history = buildFollowHistory([...events.values()]);
+
+      // Profiles of everyone the user ever followed
+      const pubkeys = [pubkey!, ...new Set(history.changes.map(change => change.pubkey))];
+      const profileEvents = await fetchLatestEvents(
+        nostr,
+        0,
+        pubkeys,
+        AbortSignal.any([c.signal, AbortSignal.timeout(10000)])
+      );
+
+      return { history, profiles: parseProfiles(profileEvents, pubkeys) };
+    },
+    enabled: !!pubkey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+
+  // The user's ego network as it stood at `at`
+  const graph = useMemo<GraphData | undefined>(() => {
+    if (!query.data || !pubkey) return undefined;
+
+    const { history, profiles } = query.data;
+    const follows = followsAt(history, at ?? Infinity).filter(pk => pk !== pubkey);
+
+    const nodes: GraphNode[] = [pubkey, ...follows].map((pk) => {
+      const isRoot = pk === pubkey;
+      return {
+        id: pk,
+        label: profileLabel(profiles.get(pk), pk),
+        avatar: profiles.get(pk)?.picture,
+        x: 0,
+        y: 0,
+        vx: 0,
+        vy: 0,
+        radius: isRoot ? 20 : 12,
+        color: isRoot ? '#8b5cf6' : '#3b82f6',
+        isRoot,
+      };
+    });
+
+    return {
+      nodes,
+      links: follows.map(target => ({ source: pubkey, target, type: 'one-way' as const })),
+    };
+  }, [query.data, pubkey, at]);
+
+  return { ...query, graph };
+}
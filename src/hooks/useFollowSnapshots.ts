@@ -0,0 +1,118 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import type { NostrEvent, NStore } from '@nostrify/nostrify';
+import { useAppContext } from '@/hooks/useAppContext';
+import { parseContactList } from '@/lib/graphCrawl';
+import type { FollowSnapshot } from '@/lib/followSnapshots';
+import { readFollowSnapshots, saveFollowSnapshot } from '@/lib/followSnapshotStore';
+
+// Upper bound on follower lists fetched for a snapshot
+const FOLLOWER_SNAPSHOT_LIMIT = 2000;
+
+// Snapshots taken from now on belong to the current visit
+const visitStartedAt = Math.floor(Date.now() / 1000);
+
+export interface FollowSnapshotsData {
+  snapshot: FollowSnapshot;
+  /** Snapshots from earlier visits, newest first */
+  previousSnapshots: FollowSnapshot[];
+}
+
+/**
+ * Every contact list on one relay that tags `pubkey`, paging back with `until`
+ * since relays may cap results below the limit asked for. Stops early once
+ * FOLLOWER_SNAPSHOT_LIMIT lists are found.
+ */
+async function fetchRelayFollowers(relay: NStore, pubkey: string, signal: AbortSignal): Promise<NostrEvent[]> {
+  const events = new Map<string, NostrEvent>();
+  let until: number | undefined;
+
+  while (events.size < FOLLOWER_SNAPSHOT_LIMIT) {
+    const page = await relay.query(
+      [{ kinds: [3], '#p': [pubkey], limit: FOLLOWER_SNAPSHOT_LIMIT, ...(until !== undefined && { until }) }],
+      { signal }
+    );
+
+    const fresh = page.filter(event => !events.has(event.id));
+    if (fresh.length === 0) break;
+
+    for (const event of fresh) {
+      events.set(event.id, event);
+    }
+    until = Math.min(...fresh.map(event => event.created_at));
+  }
+
+  return [...events.values()];
+}
+
+/**
+ * Take a snapshot of who a user follows and who follows them, and store it in
+ * IndexedDB next to the snapshots of earlier visits. A snapshot that may be
+ * partial (a failed or timed out relay, more followers than the limit, or a
+ * contact list gone missing) fails instead, since diffing it would report
+ * everyone missing as unfollowed.
+ */
+export function useFollowSnapshots(rootPubkey: string | undefined) {
+  const { nostr } = useNostr();
+  const { config } = useAppContext();
+
+  return useQuery({
+    queryKey: ['follow-snapshot', rootPubkey],
+    queryFn: async (c): Promise<FollowSnapshotsData> => {
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(15000)]);
+      const stored = await readFollowSnapshots(rootPubkey!);
+
+      // Each relay is queried on its own: the pool skips relays that fail and returns what the rest sent
+      const relays = config.relayMetadata.relays.filter(r => r.read).map(r => r.url);
+      const perRelay = await Promise.all(relays.map(async (url) => {
+        const relay = nostr.relay(url);
+        try {
+          const [contactLists, followerEvents] = await Promise.all([
+            relay.query([{ kinds: [3], authors: [rootPubkey!], limit: 1 }], { signal }),
+            fetchRelayFollowers(relay, rootPubkey!, signal),
+          ]);
+          return { contactLists, followerEvents };
+        } catch {
+          throw new Error(signal.aborted ? 'Timed out loading follow lists' : `Failed to load follow lists from ${url}`);
+        }
+      }));
+
+      const followerEvents = [
+        ...new Map(perRelay.flatMap(r => r.followerEvents).map(event => [event.id, event])).values(),
+      ];
+      if (followerEvents.length >= FOLLOWER_SNAPSHOT_LIMIT) {
+        throw new Error(`More than ${FOLLOWER_SNAPSHOT_LIMIT} followers, too many for a complete snapshot`);
+      }
+
+      const contactList = perRelay
+        .flatMap(r => r.contactLists)
+        .sort((a, b) => b.created_at - a.created_at)[0];
+      if (!contactList && stored.at(-1)?.following.length) {
+        throw new Error('Contact list not found, though the last snapshot had follows');
+      }
+
+      const followers = followerEvents
+        .filter(event => parseContactList(event).includes(rootPubkey!))
+        .map(event => event.pubkey);
+
+      const snapshot: FollowSnapshot = {
+        rootPubkey: rootPubkey!,
+        takenAt: Math.floor(Date.now() / 1000),
+        following: contactList ? [...new Set(parseContactList(contactList))] : [],
+        followers: [...new Set(followers)],
+      };
+
+      // Replaces the snapshot from earlier in this visit, if any
+      await saveFollowSnapshot(snapshot, visitStartedAt);
+
+      return {
+        snapshot,
+        previousSnapshots: stored
+          .filter(s => s.takenAt < visitStartedAt)
+          .sort((a, b) => b.takenAt - a.takenAt),
+      };
+    },
+    enabled: !!rootPubkey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
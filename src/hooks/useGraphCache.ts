@@ -0,0 +1,29 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { clearGraphCache, getGraphCacheInfo } from '@/lib/graphStore';
+
+/**
+ * Inspect and clear the local IndexedDB cache used by the social graph crawl
+ */
+export function useGraphCache() {
+  const queryClient = useQueryClient();
+
+  const info = useQuery({
+    queryKey: ['graph-cache-info'],
+    queryFn: getGraphCacheInfo,
+    staleTime: 30000, // 30 seconds
+  });
+
+  const clear = useMutation({
+    mutationFn: clearGraphCache,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['graph-cache-info'] });
+      queryClient.invalidateQueries({ queryKey: ['social-graph'] });
+    },
+  });
+
+  return {
+    info: info.data,
+    clearCache: clear.mutateAsync,
+    isClearing: clear.isPending,
+  };
+}
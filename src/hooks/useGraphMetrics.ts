@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import type { GraphData } from '@/lib/forceGraph';
+import { computeGraphMetrics, type GraphMetrics } from '@/lib/graphMetrics';
+
+/**
+ * Network metrics for `data`, computed in a Web Worker since betweenness is
+ * O(n·m). Nothing is computed while `enabled` is false, e.g. while a crawl is
+ * still streaming partial graphs; the previous result is kept until a new
+ * one arrives. Without data there are no metrics.
+ */
+export function useGraphMetrics(data: GraphData | undefined, enabled: boolean): GraphMetrics | null {
+  const [metrics, setMetrics] = useState<GraphMetrics | null>(null);
+
+  useEffect(() => {
+    if (!data) {
+      setMetrics(null);
+      return;
+    }
+    if (!enabled) return;
+
+    if (typeof Worker === 'undefined') {
+      const timer = setTimeout(() => setMetrics(computeGraphMetrics(data)));
+      return () => clearTimeout(timer);
+    }
+
+    const worker = new Worker(new URL('../lib/graphMetrics.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<GraphMetrics>) => {
+      setMetrics(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      console.error('[GraphMetrics] Worker failed:', event.message);
+    };
+    worker.postMessage(data);
+
+    return () => worker.terminate();
+  }, [data, enabled]);
+
+  return metrics;
+}
@@ -0,0 +1,118 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import type { GraphLink, GraphNode } from '@/lib/forceGraph';
+import { fetchLatestEvents, parseProfiles, profileLabel } from '@/lib/graphCrawl';
+import { runChunked } from '@/lib/crawlScheduler';
+import { clusterColor, detectCommunities } from '@/lib/communityDetection';
+import { collectInteractions, INTERACTION_KINDS } from '@/lib/interactionGraph';
+
+interface InteractionGraphOptions {
+  rootPubkey?: string;
+  days?: number; // Size of the time window, ending now
+  limit?: number; // Maximum number of nodes
+  enabled?: boolean;
+}
+
+// Upper bound on events per query
+const EVENT_LIMIT = 500;
+// `#p` filters over more pubkeys than this are often rejected by relays
+const MAX_PARTICIPANTS = 200;
+
+/**
+ * Build a weighted engagement graph around the root from replies, mentions,
+ * reactions and reposts published in the last `days` days. Edge weights are
+ * interaction counts.
+ */
+export function useInteractionGraph(options: InteractionGraphOptions = {}) {
+  const { nostr } = useNostr();
+  const { rootPubkey, days = 30, limit = 100, enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['interaction-graph', rootPubkey, days, limit],
+    queryFn: async (c) => {
+      const root = rootPubkey!;
+      const since = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(15000)]);
+
+      // The root's own activity and activity aimed at the root
+      const [outgoing, incoming] = await Promise.all([
+        nostr.query([{ kinds: INTERACTION_KINDS, authors: [root], since, limit: EVENT_LIMIT }], { signal }),
+        nostr.query([{ kinds: INTERACTION_KINDS, '#p': [root], since, limit: EVENT_LIMIT }], { signal }),
+      ]);
+
+      // Keep the pubkeys that interact most with the root
+      const totals = new Map<string, number>();
+      for (const edge of collectInteractions([...outgoing, ...incoming])) {
+        const other = edge.source === root ? edge.target : edge.target === root ? edge.source : null;
+        if (other) totals.set(other, (totals.get(other) ?? 0) + edge.weight);
+      }
+      const participants = [
+        root,
+        ...[...totals.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, Math.min(limit, MAX_PARTICIPANTS) - 1)
+          .map(([pubkey]) => pubkey),
+      ];
+      const participantSet = new Set(participants);
+
+      // Interactions among the participants themselves
+      const among = await runChunked(
+        participants.slice(1),
+        (chunk, chunkSignal) => nostr.query(
+          [{ kinds: INTERACTION_KINDS, authors: chunk, '#p': participants, since, limit: EVENT_LIMIT }],
+          { signal: chunkSignal }
+        ),
+        { signal }
+      );
+
+      const edges = collectInteractions([...outgoing, ...incoming, ...among.flat()])
+        .filter(edge => participantSet.has(edge.source) && participantSet.has(edge.target));
+
+      const profileEvents = await fetchLatestEvents(
+        nostr,
+        0,
+        participants,
+        AbortSignal.any([c.signal, AbortSignal.timeout(5000)])
+      );
+      const profiles = parseProfiles(profileEvents, participants);
+
+      // Size nodes by how much they interact with the root
+      const maxTotal = Math.max(1, ...totals.values());
+      const nodes: GraphNode[] = participants.map((pubkey) => {
+        const isRoot = pubkey === root;
+        return {
+          id: pubkey,
+          label: profileLabel(profiles.get(pubkey), pubkey),
+          avatar: profiles.get(pubkey)?.picture,
+          x: 0,
+          y: 0,
+          vx: 0,
+          vy: 0,
+          radius: isRoot ? 20 : 8 + 12 * Math.sqrt((totals.get(pubkey) ?? 0) / maxTotal),
+          color: isRoot ? '#8b5cf6' : '#3b82f6',
+          isRoot,
+        };
+      });
+
+      const links: GraphLink[] = edges.map(({ source, target, weight }) => ({
+        source,
+        target,
+        type: 'one-way',
+        weight,
+      }));
+
+      // Color nodes by community; the root keeps its own color
+      const clusters = detectCommunities({ nodes, links });
+      for (const node of nodes) {
+        node.cluster = clusters.get(node.id);
+        if (!node.isRoot && node.cluster !== undefined) {
+          node.color = clusterColor(node.cluster);
+        }
+      }
+
+      return { nodes, links, profiles, edges };
+    },
+    enabled: enabled && !!rootPubkey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
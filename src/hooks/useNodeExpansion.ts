@@ -0,0 +1,71 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import { fetchLatestEvents, parseContactList, parseProfiles } from '@/lib/graphCrawl';
+import type { NodeExpansion } from '@/lib/graphExpansion';
+
+// Upper bound on follows merged per expanded node, keeping big lists readable
+const MAX_EXPANSION_FOLLOWS = 100;
+
+/**
+ * Expand nodes in place by fetching their contact lists, and collapse them
+ * again. Fetched lists are kept in the query cache, so re-expanding is instant.
+ */
+export function useNodeExpansion() {
+  const { nostr } = useNostr();
+  const queryClient = useQueryClient();
+  const [expansions, setExpansions] = useState<Map<string, NodeExpansion>>(new Map());
+  const [pending, setPending] = useState<Set<string>>(new Set());
+
+  const expand = useCallback(async (pubkey: string) => {
+    setPending(prev => new Set(prev).add(pubkey));
+
+    try {
+      const expansion = await queryClient.fetchQuery({
+        queryKey: ['node-expansion', pubkey],
+        queryFn: async ({ signal }): Promise<NodeExpansion> => {
+          const contactLists = await fetchLatestEvents(
+            nostr,
+            3,
+            [pubkey],
+            AbortSignal.any([signal, AbortSignal.timeout(5000)])
+          );
+          const contactList = contactLists.get(pubkey);
+          const follows = contactList
+            ? [...new Set(parseContactList(contactList))].slice(0, MAX_EXPANSION_FOLLOWS)
+            : [];
+
+          const profileEvents = await fetchLatestEvents(
+            nostr,
+            0,
+            follows,
+            AbortSignal.any([signal, AbortSignal.timeout(5000)])
+          );
+
+          return { follows, profiles: parseProfiles(profileEvents, follows) };
+        },
+        staleTime: 1000 * 60 * 5, // 5 minutes
+      });
+
+      setExpansions(prev => new Map(prev).set(pubkey, expansion));
+    } finally {
+      setPending(prev => {
+        const next = new Set(prev);
+        next.delete(pubkey);
+        return next;
+      });
+    }
+  }, [nostr, queryClient]);
+
+  const collapse = useCallback((pubkey: string) => {
+    setExpansions(prev => {
+      const next = new Map(prev);
+      next.delete(pubkey);
+      return next;
+    });
+  }, []);
+
+  const reset = useCallback(() => setExpansions(new Map()), []);
+
+  return { expansions, pending, expand, collapse, reset };
+}
@@ -0,0 +1,120 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import type { GraphLink, GraphNode } from '@/lib/forceGraph';
+import {
+  fetchFollowerEvents,
+  fetchLatestEvents,
+  parseContactList,
+  parseProfiles,
+  profileLabel,
+} from '@/lib/graphCrawl';
+import { findShortestPaths, type PathFinderEdges } from '@/lib/pathFinder';
+
+interface PathFinderHookOptions {
+  maxDepth?: number; // Maximum number of hops between the two users
+  timeout?: number; // Give up after this many milliseconds
+}
+
+// Upper bound on follower lists fetched per backward level
+const FOLLOWER_QUERY_LIMIT = 500;
+
+/**
+ * Find every shortest follow path from `from` to `to`, crawling kind 3 lists
+ * from both ends until the frontiers meet. The paths are also returned as
+ * graph data so they can be drawn by GraphVisualization.
+ */
+export function usePathFinder(
+  from: string | undefined,
+  to: string | undefined,
+  options: PathFinderHookOptions = {}
+) {
+  const { nostr } = useNostr();
+  const { maxDepth = 6, timeout = 20000 } = options;
+
+  return useQuery({
+    queryKey: ['path-finder', from, to, maxDepth],
+    queryFn: async (c) => {
+      // Set when a lookup failed or may have hit its limit, so "no path" isn't conclusive
+      let incomplete = false;
+      const onChunkFailed = () => {
+        incomplete = true;
+      };
+
+      const edges: PathFinderEdges = {
+        getFollows: async (pubkeys, signal) => {
+          const events = await fetchLatestEvents(nostr, 3, pubkeys, signal, undefined, onChunkFailed);
+          const follows = new Map<string, string[]>();
+          for (const [pubkey, event] of events) {
+            follows.set(pubkey, parseContactList(event));
+          }
+          return follows;
+        },
+        getFollowers: async (pubkeys, signal) => {
+          const wanted = new Set(pubkeys);
+          const events = await fetchFollowerEvents(nostr, pubkeys, FOLLOWER_QUERY_LIMIT, signal, onChunkFailed);
+          // Each chunk returns at most the limit, so fewer events overall means none was cut short
+          if (events.length >= FOLLOWER_QUERY_LIMIT) {
+            incomplete = true;
+          }
+          const followers = new Map<string, string[]>();
+          for (const event of events) {
+            for (const pk of parseContactList(event)) {
+              if (wanted.has(pk)) {
+                followers.set(pk, [...(followers.get(pk) ?? []), event.pubkey]);
+              }
+            }
+          }
+          return followers;
+        },
+      };
+
+      const result = await findShortestPaths(from!, to!, edges, {
+        maxDepth,
+        timeout,
+        signal: c.signal,
+      });
+
+      // Build graph data for the union of all paths
+      const pubkeys = [...new Set(result.paths.flat())];
+      const profileEvents = await fetchLatestEvents(
+        nostr,
+        0,
+        pubkeys,
+        AbortSignal.any([c.signal, AbortSignal.timeout(5000)])
+      );
+      const profiles = parseProfiles(profileEvents, pubkeys);
+
+      const nodes: GraphNode[] = pubkeys.map((pubkey) => {
+        const isEndpoint = pubkey === from || pubkey === to;
+        return {
+          id: pubkey,
+          label: profileLabel(profiles.get(pubkey), pubkey),
+          avatar: profiles.get(pubkey)?.picture,
+          x: 0,
+          y: 0,
+          vx: 0,
+          vy: 0,
+          radius: isEndpoint ? 20 : 14,
+          color: isEndpoint ? '#8b5cf6' : '#3b82f6',
+          isRoot: isEndpoint,
+        };
+      });
+
+      const linkKeys = new Set<string>();
+      const links: GraphLink[] = [];
+      for (const path of result.paths) {
+        for (let i = 0; i < path.length - 1; i++) {
+          const key = `${path[i]}:${path[i + 1]}`;
+          if (!linkKeys.has(key)) {
+            linkKeys.add(key);
+            links.push({ source: path[i], target: path[i + 1], type: 'one-way' });
+          }
+        }
+      }
+
+      return { ...result, incomplete, nodes, links, profiles };
+    },
+    enabled: !!from && !!to,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -0,0 +1,86 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import type { GraphLink, GraphNode } from '@/lib/forceGraph';
+import { fetchLatestEvents, parseContactList } from '@/lib/graphCrawl';
+import { parseRelayList, type RelayListEntry } from '@/lib/outboxRouting';
+import { collectRelayUsage, recommendRelaySet } from '@/lib/relayOverlap';
+
+interface RelayOverlapGraphOptions {
+  rootPubkey?: string;
+  members?: GraphNode[]; // Users of the crawled graph
+  enabled?: boolean;
+}
+
+// Relays listed by a single user add clutter; only the most used are drawn
+const MAX_RELAY_NODES = 50;
+
+/**
+ * Build a bipartite users↔relays graph from the members' kind 10002 relay
+ * lists, and recommend the smallest relay set covering most of the root's
+ * follows. Relay node ids are relay URLs.
+ */
+export function useRelayOverlapGraph(options: RelayOverlapGraphOptions = {}) {
+  const { nostr } = useNostr();
+  const { rootPubkey, members = [], enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['relay-overlap-graph', rootPubkey, members.map(node => node.id)],
+    queryFn: async (c) => {
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(20000)]);
+
+      const contactLists = rootPubkey ? await fetchLatestEvents(nostr, 3, [rootPubkey], signal) : new Map();
+      const contactList = rootPubkey ? contactLists.get(rootPubkey) : undefined;
+      const follows = contactList ? [...new Set(parseContactList(contactList))] : [];
+
+      const memberIds = members.map(node => node.id);
+      const pubkeys = [...new Set([...memberIds, ...follows])];
+      const relayListEvents = await fetchLatestEvents(nostr, 10002, pubkeys, signal);
+
+      // Authors without a relay list get an empty one
+      const relayLists = new Map<string, RelayListEntry[]>();
+      for (const pubkey of pubkeys) {
+        const event = relayListEvents.get(pubkey);
+        relayLists.set(pubkey, event ? parseRelayList(event) : []);
+      }
+
+      const memberLists = new Map(memberIds.map(pubkey => [pubkey, relayLists.get(pubkey) ?? []]));
+      const usage = collectRelayUsage(memberLists);
+      const recommendation = recommendRelaySet(relayLists, follows);
+
+      const relays = usage.slice(0, MAX_RELAY_NODES);
+      const maxUsers = Math.max(1, ...relays.map(relay => relay.users.length));
+
+      const nodes: GraphNode[] = [
+        ...members.map(node => ({
+          ...node,
+          x: 0,
+          y: 0,
+          vx: 0,
+          vy: 0,
+          radius: node.isRoot ? 14 : 5,
+          color: node.isRoot ? '#8b5cf6' : '#94a3b8',
+          cluster: undefined,
+          expanded: undefined,
+        })),
+        ...relays.map(relay => ({
+          id: relay.url,
+          label: relay.url.replace(/^wss?:\/\//, ''),
+          x: 0,
+          y: 0,
+          vx: 0,
+          vy: 0,
+          radius: 8 + 22 * Math.sqrt(relay.users.length / maxUsers),
+          color: recommendation.relays.includes(relay.url) ? '#f59e0b' : '#14b8a6',
+        })),
+      ];
+
+      const links: GraphLink[] = relays.flatMap(relay =>
+        relay.users.map(pubkey => ({ source: pubkey, target: relay.url }))
+      );
+
+      return { nodes, links, usage, recommendation };
+    },
+    enabled: enabled && members.length > 0,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -1,179 +1,457 @@
-import { useQuery } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useNostr } from '@nostrify/react';
+import { useAppContext } from '@/hooks/useAppContext';
 import type { NostrEvent } from '@nostrify/nostrify';
 import type { GraphData, GraphNode, GraphLink } from '@/lib/forceGraph';
+import { writeGraphEventsToDB } from '@/lib/graphStore';
+import {
+  fetchFollowerEvents,
+  fetchLatestEvents,
+  parseContactList,
+  parseProfiles,
+  profileLabel,
+  type NostrProfile,
+} from '@/lib/graphCrawl';
+import {
+  parseRelayHints,
+  parseRelayList,
+  summarizeCoverage,
+  type EventSources,
+  type OutboxRouting,
+  type RelayCoverage,
+  type RelayListEntry,
+} from '@/lib/outboxRouting';
+import { computeTrustScores, trustRadius } from '@/lib/trustScore';
+import { clusterColor, detectCommunities } from '@/lib/communityDetection';
+
+/** Which edges to follow outward from the root */
+export type GraphDirection = 'following' | 'followers' | 'both';
 
 interface SocialGraphOptions {
   rootPubkey?: string; // If provided, starts from this user
   depth?: number; // How many levels deep to traverse
+  direction?: GraphDirection; // Traverse follows, followers or both (root mode only)
   limit?: number; // Maximum number of nodes to fetch
   relayUrl?: string; // Specific relay to query (optional)
+  relayHints?: string[]; // Extra relays to query, e.g. from an nprofile
+  enabled?: boolean; // Set to false to skip the crawl
+}
+
+/** Progress of a running crawl, emitted with every partial graph */
+export interface CrawlProgress {
+  phase: 'contacts' | 'profiles' | 'done' | 'cancelled';
+  /** BFS levels crawled during 'contacts', profiles loaded during 'profiles' */
+  current: number;
+  total: number;
+  status: string;
+}
+
+export interface SocialGraphData extends GraphData {
+  profiles: Map<string, NostrProfile>;
+  trustScores: Map<string, number>;
+  /** Relays the crawled events came from */
+  coverage: RelayCoverage;
+  progress: CrawlProgress;
+}
+
+const CRAWL_CONSTANTS = {
+  LEVEL_TIMEOUT: 30000,
+  PROFILE_BATCH_SIZE: 100,
+  PROFILE_BATCH_TIMEOUT: 10000,
+} as const;
+
+// Controllers for stopping running crawls by hand, keyed by serialized query key
+const crawlControllers = new Map<string, AbortController>();
+
+/** Everything the crawl has collected so far */
+interface CrawlState {
+  rootPubkey?: string;
+  pubkeys: string[];
+  followMap: Map<string, string[]>;
+  /** Contact lists of users the crawl didn't expand, only used to tell mutual follows apart */
+  leafFollows: Map<string, Set<string>>;
+  muteMap: Map<string, string[]>;
+  profileEvents: Map<string, NostrEvent>;
+  defaultRelays: string[];
+  relayLists: Map<string, RelayListEntry[]>;
+  relayHints: Map<string, string>;
+  sources: EventSources;
+  /** Set once contacts and mutes are in, after which the graph's structure no longer changes */
+  structureComplete: boolean;
+  /** Trust scores and communities, computed once the structure is complete */
+  analysis?: { trustScores: Map<string, number>; clusters: Map<string, number> };
 }
 
-interface NostrProfile {
-  pubkey: string;
-  name?: string;
-  picture?: string;
-  display_name?: string;
+/**
+ * Run one crawl step with its own timeout.
+ * A step that times out yields `fallback` instead of failing the whole crawl.
+ */
+async function runStep<T>(
+  step: (signal: AbortSignal) => Promise<T>,
+  fallback: T,
+  crawlSignal: AbortSignal,
+  timeout: number
+): Promise<T> {
+  const signal = AbortSignal.any([crawlSignal, AbortSignal.timeout(timeout)]);
+  try {
+    return await step(signal);
+  } catch (error) {
+    if (signal.aborted) return fallback;
+    throw error;
+  }
 }
 
-// Parse kind 3 contact list event to extract followed pubkeys
-function parseContactList(event: NostrEvent): string[] {
-  return event.tags
-    .filter(tag => tag[0] === 'p')
-    .map(tag => tag[1])
-    .filter(Boolean);
+/**
+ * Build graph data from the current crawl state. Partial graphs emitted while
+ * contacts stream in are left unscored and uncolored; trust scores and
+ * communities are computed once, when the structure is complete.
+ */
+function buildSocialGraph(state: CrawlState, progress: CrawlProgress): SocialGraphData {
+  const { rootPubkey, pubkeys, followMap, muteMap } = state;
+  const nodeSet = new Set(pubkeys);
+  const profileMap = parseProfiles(state.profileEvents, pubkeys);
+
+  // Personalized Web-of-Trust scores, only meaningful with a root
+  const trustScores = state.analysis?.trustScores ?? (state.structureComplete && rootPubkey
+    ? computeTrustScores(followMap, rootPubkey, muteMap)
+    : new Map<string, number>());
+
+  const nodes: GraphNode[] = [];
+  const links: GraphLink[] = [];
+
+  // Create nodes
+  for (const pubkey of pubkeys) {
+    const profile = profileMap.get(pubkey);
+    const isRoot = pubkey === rootPubkey;
+    const trust = trustScores.get(pubkey);
+
+    nodes.push({
+      id: pubkey,
+      label: profileLabel(profile, pubkey),
+      avatar: profile?.picture,
+      x: 0,
+      y: 0,
+      vx: 0,
+      vy: 0,
+      radius: isRoot ? 20 : trust !== undefined ? trustRadius(trust) : 12,
+      color: isRoot ? '#8b5cf6' : '#3b82f6',
+      isRoot,
+    });
+  }
+
+  // Create links based on follow relationships, marking reciprocal follows as mutual
+  const followSets = new Map<string, Set<string>>();
+  for (const [source, targets] of followMap) {
+    followSets.set(source, new Set(targets));
+  }
+
+  for (const [source, targets] of followSets) {
+    if (!nodeSet.has(source)) continue;
+
+    for (const target of targets) {
+      if (target !== source && nodeSet.has(target)) {
+        const isMutual = (followSets.get(target) ?? state.leafFollows.get(target))?.has(source) ?? false;
+        links.push({ source, target, type: isMutual ? 'mutual' : 'one-way' });
+
+        // Leaves aren't in followSets, so add their half of the pair here
+        if (isMutual && !followSets.has(target)) {
+          links.push({ source: target, target: source, type: 'mutual' });
+        }
+      }
+    }
+  }
+
+  // Create negative links from mute lists
+  for (const [source, targets] of muteMap) {
+    if (!nodeSet.has(source)) continue;
+
+    for (const target of new Set(targets)) {
+      if (target !== source && nodeSet.has(target)) {
+        links.push({ source, target, type: 'muted' });
+      }
+    }
+  }
+
+  const graphData: GraphData = { nodes, links };
+
+  // Color nodes by community; the root keeps its own color
+  const clusters = state.analysis?.clusters ?? (state.structureComplete
+    ? detectCommunities(graphData)
+    : new Map<string, number>());
+  if (state.structureComplete) {
+    state.analysis = { trustScores, clusters };
+  }
+  for (const node of nodes) {
+    node.cluster = clusters.get(node.id);
+    if (!node.isRoot && node.cluster !== undefined) {
+      node.color = clusterColor(node.cluster);
+    }
+  }
+
+  return {
+    ...graphData,
+    profiles: profileMap,
+    trustScores,
+    coverage: summarizeCoverage(state.sources, state.defaultRelays),
+    progress,
+  };
 }
 
+/**
+ * Crawl the social graph, streaming partial graph data into the query cache
+ * after every BFS level and profile batch. Each step has its own timeout, and
+ * `cancel()` stops the crawl while keeping everything loaded so far.
+ */
 export function useSocialGraph(options: SocialGraphOptions = {}) {
   const { nostr } = useNostr();
-  const { rootPubkey, depth = 2, limit = 100, relayUrl } = options;
+  const queryClient = useQueryClient();
+  const { config } = useAppContext();
+  const {
+    rootPubkey,
+    depth = 2,
+    direction = 'following',
+    limit = 100,
+    relayUrl,
+    relayHints = [],
+    enabled = true,
+  } = options;
+
+  const queryKey = ['social-graph', rootPubkey, depth, direction, limit, relayUrl, relayHints];
+  const crawlKey = JSON.stringify(queryKey);
 
-  return useQuery({
-    queryKey: ['social-graph', rootPubkey, depth, limit, relayUrl],
-    queryFn: async (c) => {
-      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(10000)]);
+  const query = useQuery({
+    queryKey,
+    queryFn: async (c): Promise<SocialGraphData> => {
+      const controller = new AbortController();
+      crawlControllers.set(crawlKey, controller);
+      const crawlSignal = AbortSignal.any([c.signal, controller.signal]);
 
       // Choose which nostr instance to use
       const nostrInstance = relayUrl ? nostr.relay(relayUrl) : nostr;
 
-      // Fetch contact lists
-      const filters = rootPubkey
-        ? [{ kinds: [3], authors: [rootPubkey], limit: 1 }]
-        : [{ kinds: [3], limit }];
+      const state: CrawlState = {
+        rootPubkey,
+        pubkeys: [],
+        followMap: new Map(),
+        leafFollows: new Map(),
+        muteMap: new Map(),
+        profileEvents: new Map(),
+        defaultRelays: [
+          ...new Set([...config.relayMetadata.relays.filter(r => r.read).map(r => r.url), ...relayHints]),
+        ],
+        relayLists: new Map(),
+        relayHints: new Map(),
+        sources: new Map(),
+        structureComplete: false,
+      };
 
-      const contactEvents = await nostrInstance.query(filters, { signal });
+      // Outbox model: also look for authors on their own write relays,
+      // unless the crawl is pinned to a single relay
+      const outbox: OutboxRouting | undefined = relayUrl ? undefined : {
+        relay: (url) => nostr.relay(url),
+        defaultRelays: state.defaultRelays,
+        relayLists: state.relayLists,
+        hints: state.relayHints,
+        sources: state.sources,
+      };
 
-      if (contactEvents.length === 0) {
-        return {
-          nodes: [],
-          links: [],
-          profiles: new Map<string, NostrProfile>(),
-        };
-      }
+      // Load NIP-65 relay lists for authors whose write relays are still unknown
+      const loadRelayLists = async (authors: string[], signal: AbortSignal) => {
+        const missing = authors.filter(pk => !state.relayLists.has(pk));
+        if (!outbox || missing.length === 0) return;
 
-      // Build a map of pubkey -> followed pubkeys
-      const followMap = new Map<string, string[]>();
-      const allPubkeys = new Set<string>();
+        const relayListEvents = await fetchLatestEvents(nostrInstance, 10002, missing, signal);
+        for (const pubkey of missing) {
+          const event = relayListEvents.get(pubkey);
+          state.relayLists.set(pubkey, event ? parseRelayList(event) : []);
+        }
+      };
 
-      for (const event of contactEvents) {
+      // Parse a contact list, keeping its relay hints for authors without a relay list
+      const addContactList = (event: NostrEvent): string[] => {
+        for (const [pubkey, hint] of parseRelayHints(event)) {
+          if (!state.relayHints.has(pubkey)) state.relayHints.set(pubkey, hint);
+        }
         const followed = parseContactList(event);
-        followMap.set(event.pubkey, followed);
-        allPubkeys.add(event.pubkey);
-        followed.forEach(pk => allPubkeys.add(pk));
-      }
-
-      // If we have a root pubkey, do breadth-first traversal
-      if (rootPubkey && depth > 1) {
-        const visited = new Set<string>([rootPubkey]);
-        let currentLevel = [rootPubkey];
+        state.followMap.set(event.pubkey, followed);
+        return followed;
+      };
 
-        for (let level = 1; level < depth && currentLevel.length > 0; level++) {
-          const nextLevel: string[] = [];
+      // Publish a partial graph while the crawl continues
+      const emit = (progress: CrawlProgress) => {
+        if (!c.signal.aborted) {
+          queryClient.setQueryData(queryKey, buildSocialGraph(state, progress));
+        }
+      };
 
-          // Get contact lists for current level
-          const levelFilters = [{ kinds: [3], authors: currentLevel }];
-          const levelEvents = await nostrInstance.query(levelFilters, { signal });
+      try {
+        if (rootPubkey) {
+          // Breadth-first traversal from the root along the selected edge direction
+          const visited = new Set<string>([rootPubkey]);
+          let currentLevel = [rootPubkey];
 
-          for (const event of levelEvents) {
-            const followed = parseContactList(event);
-            followMap.set(event.pubkey, followed);
+          for (let level = 0; level < depth && currentLevel.length > 0; level++) {
+            if (crawlSignal.aborted) break;
 
-            for (const pk of followed) {
-              if (!visited.has(pk) && allPubkeys.size < limit) {
+            const nextLevel: string[] = [];
+            const visit = (pk: string) => {
+              if (!visited.has(pk) && visited.size < limit) {
                 visited.add(pk);
                 nextLevel.push(pk);
-                allPubkeys.add(pk);
+              }
+            };
+
+            // Outgoing edges: contact lists published by the current level
+            if (direction !== 'followers') {
+              const levelEvents = await runStep(
+                async (signal) => {
+                  await loadRelayLists(currentLevel, signal);
+                  return fetchLatestEvents(nostrInstance, 3, currentLevel, signal, outbox);
+                },
+                new Map<string, NostrEvent>(),
+                crawlSignal,
+                CRAWL_CONSTANTS.LEVEL_TIMEOUT
+              );
+
+              for (const event of levelEvents.values()) {
+                addContactList(event).forEach(visit);
               }
             }
+
+            // Incoming edges: contact lists that tag the current level
+            if (direction !== 'following') {
+              const followerEvents = await runStep(
+                (signal) => fetchFollowerEvents(nostrInstance, currentLevel, limit, signal),
+                [],
+                crawlSignal,
+                CRAWL_CONSTANTS.LEVEL_TIMEOUT
+              );
+
+              for (const event of followerEvents) {
+                addContactList(event);
+                visit(event.pubkey);
+              }
+            }
+
+            currentLevel = nextLevel;
+            state.pubkeys = state.followMap.size > 0 ? [...visited] : [];
+            emit({
+              phase: 'contacts',
+              current: level + 1,
+              total: depth,
+              status: `Level ${level + 1} of ${depth}: ${state.pubkeys.length} users`,
+            });
+          }
+        } else {
+          const contactEvents = await runStep(
+            (signal) => nostrInstance.query([{ kinds: [3], limit }], { signal }),
+            [],
+            crawlSignal,
+            CRAWL_CONSTANTS.LEVEL_TIMEOUT
+          );
+          try {
+            await writeGraphEventsToDB(contactEvents);
+          } catch {
+            // Caching is best-effort
           }
 
-          currentLevel = nextLevel;
-        }
-      }
+          const allPubkeys = new Set<string>();
+          for (const event of contactEvents) {
+            const followed = addContactList(event);
+            allPubkeys.add(event.pubkey);
+            followed.forEach(pk => allPubkeys.add(pk));
+          }
 
-      // Fetch profiles for all pubkeys (kind 0 metadata)
-      const pubkeyArray = Array.from(allPubkeys).slice(0, limit);
-      const profileEvents = await nostrInstance.query(
-        [{ kinds: [0], authors: pubkeyArray }],
-        { signal }
-      );
-
-      // Build profile map (keep only the latest event per pubkey)
-      const profileMap = new Map<string, NostrProfile>();
-      const latestProfileEvents = new Map<string, NostrEvent>();
-
-      for (const event of profileEvents) {
-        const existing = latestProfileEvents.get(event.pubkey);
-        if (!existing || event.created_at > existing.created_at) {
-          latestProfileEvents.set(event.pubkey, event);
+          state.pubkeys = Array.from(allPubkeys).slice(0, limit);
+          emit({ phase: 'contacts', current: 1, total: 1, status: `${state.pubkeys.length} users` });
         }
-      }
 
-      for (const [pubkey, event] of latestProfileEvents) {
-        try {
-          const metadata = JSON.parse(event.content);
-          profileMap.set(pubkey, {
-            pubkey,
-            name: metadata.name,
-            picture: metadata.picture,
-            display_name: metadata.display_name,
-          });
-        } catch {
-          // Invalid JSON, use pubkey only
-          profileMap.set(pubkey, { pubkey });
+        // Contact lists of the last level, so follows back from it count as mutual.
+        // They are not expanded: their follows don't join the graph
+        const leaves = state.pubkeys.filter(pk => !state.followMap.has(pk));
+        if (leaves.length > 0 && state.followMap.size > 0 && !crawlSignal.aborted) {
+          const leafEvents = await runStep(
+            async (signal) => {
+              await loadRelayLists(leaves, signal);
+              return fetchLatestEvents(nostrInstance, 3, leaves, signal, outbox);
+            },
+            new Map<string, NostrEvent>(),
+            crawlSignal,
+            CRAWL_CONSTANTS.LEVEL_TIMEOUT
+          );
+          for (const [pubkey, event] of leafEvents) {
+            state.leafFollows.set(pubkey, new Set(parseContactList(event)));
+          }
         }
-      }
 
-      // Ensure all pubkeys have a profile entry
-      for (const pubkey of pubkeyArray) {
-        if (!profileMap.has(pubkey)) {
-          profileMap.set(pubkey, { pubkey });
+        // Fetch mute lists (kind 10000) for every user whose contact list was crawled
+        const crawledAuthors = state.pubkeys.filter(pk => state.followMap.has(pk));
+        if (crawledAuthors.length > 0 && !crawlSignal.aborted) {
+          const muteEvents = await runStep(
+            (signal) => fetchLatestEvents(nostrInstance, 10000, crawledAuthors, signal),
+            new Map<string, NostrEvent>(),
+            crawlSignal,
+            CRAWL_CONSTANTS.LEVEL_TIMEOUT
+          );
+
+          // Mute lists carry their public entries in the same `p` tags as contact lists
+          for (const [pubkey, event] of muteEvents) {
+            state.muteMap.set(pubkey, parseContactList(event));
+          }
         }
-      }
 
-      // Build graph data
-      const nodes: GraphNode[] = [];
-      const links: GraphLink[] = [];
-
-      // Create nodes
-      for (const pubkey of pubkeyArray) {
-        const profile = profileMap.get(pubkey);
-        const isRoot = pubkey === rootPubkey;
-
-        nodes.push({
-          id: pubkey,
-          label: profile?.display_name || profile?.name || pubkey.slice(0, 8),
-          avatar: profile?.picture,
-          x: 0,
-          y: 0,
-          vx: 0,
-          vy: 0,
-          radius: isRoot ? 20 : 12,
-          color: isRoot ? '#8b5cf6' : '#3b82f6',
-          isRoot,
-        });
-      }
+        state.structureComplete = true;
 
-      // Create links based on follow relationships
-      for (const [source, targets] of followMap) {
-        if (!pubkeyArray.includes(source)) continue;
+        // Fetch profiles (kind 0 metadata) in batches
+        const { PROFILE_BATCH_SIZE, PROFILE_BATCH_TIMEOUT } = CRAWL_CONSTANTS;
+        for (let i = 0; i < state.pubkeys.length; i += PROFILE_BATCH_SIZE) {
+          if (crawlSignal.aborted) break;
 
-        for (const target of targets) {
-          if (pubkeyArray.includes(target)) {
-            links.push({ source, target });
-          }
+          const batch = state.pubkeys.slice(i, i + PROFILE_BATCH_SIZE);
+          const profileEvents = await runStep(
+            async (signal) => {
+              await loadRelayLists(batch, signal);
+              return fetchLatestEvents(nostrInstance, 0, batch, signal, outbox);
+            },
+            new Map<string, NostrEvent>(),
+            crawlSignal,
+            PROFILE_BATCH_TIMEOUT
+          );
+          profileEvents.forEach((event, pubkey) => state.profileEvents.set(pubkey, event));
+
+          emit({
+            phase: 'profiles',
+            current: state.profileEvents.size,
+            total: state.pubkeys.length,
+            status: `Loaded ${state.profileEvents.size} of ${state.pubkeys.length} profiles`,
+          });
         }
-      }
 
-      const graphData: GraphData = { nodes, links };
+        queryClient.invalidateQueries({ queryKey: ['graph-cache-info'] });
 
-      return {
-        ...graphData,
-        profiles: profileMap,
-      };
+        const cancelled = controller.signal.aborted;
+        return buildSocialGraph(state, {
+          phase: cancelled ? 'cancelled' : 'done',
+          current: state.pubkeys.length,
+          total: state.pubkeys.length,
+          status: cancelled ? 'Crawl stopped' : 'Crawl complete',
+        });
+      } finally {
+        if (crawlControllers.get(crawlKey) === controller) {
+          crawlControllers.delete(crawlKey);
+        }
+      }
     },
-    staleTime: 1000 * 60 * 5, // 5 minutes
-    enabled: true,
+    // A crawl stopped by hand is incomplete; let the next mount crawl again
+    staleTime: (q) => q.state.data?.progress.phase === 'cancelled' ? 0 : 1000 * 60 * 5, // 5 minutes
+    enabled,
   });
+
+  // Stop the running crawl, keeping the partial graph
+  const cancel = useCallback(() => {
+    crawlControllers.get(crawlKey)?.abort();
+  }, [crawlKey]);
+
+  return { ...query, cancel };
 }
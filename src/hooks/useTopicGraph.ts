@@ -0,0 +1,77 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import type { GraphLink, GraphNode } from '@/lib/forceGraph';
+import { runChunked } from '@/lib/crawlScheduler';
+import { clusterColor, detectCommunities } from '@/lib/communityDetection';
+import { collectTopics } from '@/lib/topicGraph';
+
+interface TopicGraphOptions {
+  authors?: string[]; // Members of the crawled graph
+  days?: number; // Size of the time window, ending now
+  limit?: number; // Maximum number of hashtags
+  enabled?: boolean;
+}
+
+// Upper bound on notes per query
+const NOTE_LIMIT = 500;
+
+/**
+ * Build a hashtag co-occurrence graph from kind 1 notes the given authors
+ * published in the last `days` days. Node ids are the hashtags themselves.
+ */
+export function useTopicGraph(options: TopicGraphOptions = {}) {
+  const { nostr } = useNostr();
+  const { authors = [], days = 30, limit = 100, enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['topic-graph', authors, days, limit],
+    queryFn: async (c) => {
+      const since = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(20000)]);
+
+      const notes = await runChunked(
+        authors,
+        (chunk, chunkSignal) => nostr.query(
+          [{ kinds: [1], authors: chunk, since, limit: NOTE_LIMIT }],
+          { signal: chunkSignal }
+        ),
+        { signal }
+      );
+
+      const { topics, edges } = collectTopics(notes.flat());
+
+      // Keep the most used hashtags
+      const kept = [...topics.values()].sort((a, b) => b.count - a.count).slice(0, limit);
+      const keptTags = new Set(kept.map(stats => stats.tag));
+      const maxCount = Math.max(1, ...kept.map(stats => stats.count));
+
+      const nodes: GraphNode[] = kept.map(stats => ({
+        id: stats.tag,
+        label: `#${stats.tag}`,
+        x: 0,
+        y: 0,
+        vx: 0,
+        vy: 0,
+        radius: 6 + 14 * Math.sqrt(stats.count / maxCount),
+        color: '#3b82f6',
+      }));
+
+      const links: GraphLink[] = edges
+        .filter(edge => keptTags.has(edge.source) && keptTags.has(edge.target))
+        .map(({ source, target, weight }) => ({ source, target, weight }));
+
+      // Color hashtags by the topic cluster they fall in
+      const clusters = detectCommunities({ nodes, links });
+      for (const node of nodes) {
+        node.cluster = clusters.get(node.id);
+        if (node.cluster !== undefined) {
+          node.color = clusterColor(node.cluster);
+        }
+      }
+
+      return { nodes, links, topics };
+    },
+    enabled: enabled && authors.length > 0,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -0,0 +1,23 @@
+import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useSocialGraph } from '@/hooks/useSocialGraph';
+
+/**
+ * Personalized Web-of-Trust score of `pubkey`, seen from the logged-in user.
+ *
+ * Scores range from -1 (muted by trusted users) to 1 (the user themselves, or
+ * their most trusted contact). The score is undefined when nobody is logged in,
+ * while the graph is loading, or when `pubkey` is outside the crawled graph.
+ */
+export function useTrustScore(pubkey: string | undefined) {
+  const { user } = useCurrentUser();
+
+  const { data, isLoading } = useSocialGraph({
+    rootPubkey: user?.pubkey,
+    enabled: !!user && !!pubkey,
+  });
+
+  return {
+    score: pubkey ? data?.trustScores.get(pubkey) : undefined,
+    isLoading,
+  };
+}
@@ -0,0 +1,133 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNostr } from '@nostrify/react';
+import type { GraphLink, GraphNode } from '@/lib/forceGraph';
+import { fetchLatestEvents, parseContactList, parseProfiles, profileLabel } from '@/lib/graphCrawl';
+import { runChunked } from '@/lib/crawlScheduler';
+import { clusterColor, detectCommunities } from '@/lib/communityDetection';
+import { collectZapFlows, zapLeaderboards } from '@/lib/zapFlow';
+
+interface ZapFlowGraphOptions {
+  rootPubkey?: string;
+  days?: number; // Size of the time window, ending now
+  limit?: number; // Maximum number of nodes
+  enabled?: boolean;
+}
+
+// Upper bound on receipts per query
+const RECEIPT_LIMIT = 500;
+// Follows whose zaps are crawled along with the root's
+const MAX_NETWORK = 300;
+
+/**
+ * Build a graph of who zaps whom across the root and their follows, from
+ * kind 9735 receipts sent or received in the last `days` days. Edge weights
+ * are total sats.
+ */
+export function useZapFlowGraph(options: ZapFlowGraphOptions = {}) {
+  const { nostr } = useNostr();
+  const { rootPubkey, days = 30, limit = 100, enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['zap-flow-graph', rootPubkey, days, limit],
+    queryFn: async (c) => {
+      const root = rootPubkey!;
+      const since = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(20000)]);
+
+      const contactLists = await fetchLatestEvents(nostr, 3, [root], signal);
+      const contactList = contactLists.get(root);
+      const network = [
+        root,
+        ...(contactList ? [...new Set(parseContactList(contactList))] : [])
+          .filter(pubkey => pubkey !== root)
+          .slice(0, MAX_NETWORK),
+      ];
+
+      // Receipts for zaps received by, and sent from, the network
+      const receipts = await runChunked(
+        network,
+        (chunk, chunkSignal) => nostr.query(
+          [
+            { kinds: [9735], '#p': chunk, since, limit: RECEIPT_LIMIT },
+            { kinds: [9735], '#P': chunk, since, limit: RECEIPT_LIMIT },
+          ],
+          { signal: chunkSignal }
+        ),
+        { signal }
+      );
+
+      const allEdges = collectZapFlows(receipts.flat());
+
+      // Keep the pubkeys moving the most sats, always including the root
+      const volume = new Map<string, number>();
+      for (const edge of allEdges) {
+        volume.set(edge.source, (volume.get(edge.source) ?? 0) + edge.sats);
+        volume.set(edge.target, (volume.get(edge.target) ?? 0) + edge.sats);
+      }
+      const participants = [
+        root,
+        ...[...volume.entries()]
+          .filter(([pubkey]) => pubkey !== root)
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, limit - 1)
+          .map(([pubkey]) => pubkey),
+      ];
+      const participantSet = new Set(participants);
+      const edges = allEdges.filter(edge => participantSet.has(edge.source) && participantSet.has(edge.target));
+
+      // Rank over every receipt found, not just the pubkeys shown
+      const leaderboards = zapLeaderboards(allEdges);
+      const profilePubkeys = [...new Set([
+        ...participants,
+        ...leaderboards.zappers.map(entry => entry.pubkey),
+        ...leaderboards.recipients.map(entry => entry.pubkey),
+      ])];
+
+      const profileEvents = await fetchLatestEvents(
+        nostr,
+        0,
+        profilePubkeys,
+        AbortSignal.any([c.signal, AbortSignal.timeout(5000)])
+      );
+      const profiles = parseProfiles(profileEvents, profilePubkeys);
+
+      // Size nodes by the sats they sent and received, on a log scale
+      const maxVolume = Math.log1p(Math.max(1, ...volume.values()));
+      const nodes: GraphNode[] = participants.map((pubkey) => {
+        const isRoot = pubkey === root;
+        return {
+          id: pubkey,
+          label: profileLabel(profiles.get(pubkey), pubkey),
+          avatar: profiles.get(pubkey)?.picture,
+          x: 0,
+          y: 0,
+          vx: 0,
+          vy: 0,
+          radius: isRoot ? 20 : 6 + 14 * (Math.log1p(volume.get(pubkey) ?? 0) / maxVolume),
+          color: isRoot ? '#8b5cf6' : '#f59e0b',
+          isRoot,
+        };
+      });
+
+      const links: GraphLink[] = edges.map(({ source, target, sats }) => ({
+        source,
+        target,
+        type: 'one-way',
+        weight: sats,
+      }));
+
+      // Color nodes by community; the root keeps its own color
+      const clusters = detectCommunities({ nodes, links });
+      for (const node of nodes) {
+        node.cluster = clusters.get(node.id);
+        if (!node.isRoot && node.cluster !== undefined) {
+          node.color = clusterColor(node.cluster);
+        }
+      }
+
+      return { nodes, links, profiles, leaderboards };
+    },
+    enabled: enabled && !!rootPubkey,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
@@ -0,0 +1,134 @@
+// Canvas 2D graph renderer, the default for small and medium graphs
+
+import {
+  drawLabel,
+  HIGHLIGHT_COLOR,
+  isMirroredMutual,
+  LINK_STYLES,
+  linkWidth,
+  nodeBorder,
+  showsLabel,
+  type GraphRenderer,
+  type RenderScene,
+} from '@/lib/graphRenderer';
+
+export class Canvas2DRenderer implements GraphRenderer {
+  constructor(private ctx: CanvasRenderingContext2D) {}
+
+  render(scene: RenderScene): void {
+    const { ctx } = this;
+    const { highlightedPath, viewport } = scene;
+
+    // Clear canvas
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, scene.width, scene.height);
+
+    // Everything but labels is drawn in graph coordinates
+    ctx.setTransform(viewport.k, 0, 0, viewport.k, viewport.x, viewport.y);
+
+    // Draw links, styled by relationship type
+    for (const link of scene.links) {
+      // Mutual follows usually appear in both directions; draw each pair once
+      if (isMirroredMutual(link, scene.links)) continue;
+
+      const sourceNode = scene.getNode(link.source);
+      const targetNode = scene.getNode(link.target);
+
+      if (sourceNode && targetNode) {
+        const style = LINK_STYLES[link.type ?? 'one-way'];
+        ctx.strokeStyle = style.color;
+        ctx.lineWidth = linkWidth(link, scene.maxWeight);
+        ctx.setLineDash(style.dash);
+        ctx.beginPath();
+        ctx.moveTo(sourceNode.x, sourceNode.y);
+        ctx.lineTo(targetNode.x, targetNode.y);
+        ctx.stroke();
+      }
+    }
+    ctx.setLineDash([]);
+
+    // Draw highlighted path hops on top of the regular links
+    const pathNodes = new Set(highlightedPath);
+    if (highlightedPath && highlightedPath.length > 1) {
+      ctx.strokeStyle = HIGHLIGHT_COLOR;
+      ctx.lineWidth = 3;
+
+      for (let i = 0; i < highlightedPath.length - 1; i++) {
+        const sourceNode = scene.getNode(highlightedPath[i]);
+        const targetNode = scene.getNode(highlightedPath[i + 1]);
+
+        if (sourceNode && targetNode) {
+          ctx.beginPath();
+          ctx.moveTo(sourceNode.x, sourceNode.y);
+          ctx.lineTo(targetNode.x, targetNode.y);
+          ctx.stroke();
+        }
+      }
+    }
+
+    // Draw nodes
+    const labelled: typeof scene.nodes = [];
+    for (const node of scene.nodes) {
+      const isHovered = scene.hoveredId === node.id;
+      const isOnPath = pathNodes.has(node.id);
+
+      // Draw avatar if available
+      const img = node.avatar ? scene.images.get(node.avatar) : undefined;
+      const border = nodeBorder(node, isHovered, isOnPath, !!(img && img.complete));
+      if (img && img.complete) {
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
+        ctx.closePath();
+        ctx.clip();
+        ctx.drawImage(
+          img,
+          node.x - node.radius,
+          node.y - node.radius,
+          node.radius * 2,
+          node.radius * 2
+        );
+        ctx.restore();
+
+        // Border
+        ctx.strokeStyle = border.color;
+        ctx.lineWidth = border.width;
+        ctx.beginPath();
+        ctx.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
+        ctx.stroke();
+      } else {
+        // Draw colored circle if no avatar
+        ctx.fillStyle = node.color;
+        ctx.strokeStyle = border.color;
+        ctx.lineWidth = border.width;
+        ctx.beginPath();
+        ctx.arc(node.x, node.y, node.radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+
+      // Dashed ring around nodes whose follows were expanded in place
+      if (node.expanded) {
+        ctx.strokeStyle = node.color;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([3, 3]);
+        ctx.beginPath();
+        ctx.arc(node.x, node.y, node.radius + 4, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      if (showsLabel(node, scene, pathNodes)) {
+        labelled.push(node);
+      }
+    }
+
+    // Labels go on top, in screen coordinates
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    for (const node of labelled) {
+      drawLabel(ctx, node, viewport);
+    }
+  }
+
+  dispose(): void {}
+}
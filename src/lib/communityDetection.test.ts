@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { detectCommunities, summarizeCommunities } from './communityDetection';
+import type { GraphData, GraphLink, GraphNode } from './forceGraph';
+
+function createGraph(ids: string[], edges: [string, string][], type: GraphLink['type'] = 'mutual'): GraphData {
+  const nodes: GraphNode[] = ids.map(id => ({
+    id, label: id, x: 0, y: 0, vx: 0, vy: 0, radius: 12, color: '#3b82f6',
+  }));
+  const links = edges.flatMap(([a, b]) => [
+    { source: a, target: b, type },
+    { source: b, target: a, type },
+  ]);
+  return { nodes, links };
+}
+
+describe('detectCommunities', () => {
+  it('separates two cliques joined by a single edge', () => {
+    const data = createGraph(
+      ['a1', 'a2', 'a3', 'a4', 'b1', 'b2', 'b3', 'b4'],
+      [
+        ['a1', 'a2'], ['a1', 'a3'], ['a1', 'a4'], ['a2', 'a3'], ['a2', 'a4'], ['a3', 'a4'],
+        ['b1', 'b2'], ['b1', 'b3'], ['b1', 'b4'], ['b2', 'b3'], ['b2', 'b4'], ['b3', 'b4'],
+        ['a1', 'b1'],
+      ]
+    );
+    const clusters = detectCommunities(data);
+
+    expect(new Set(['a1', 'a2', 'a3', 'a4'].map(id => clusters.get(id))).size).toBe(1);
+    expect(new Set(['b1', 'b2', 'b3', 'b4'].map(id => clusters.get(id))).size).toBe(1);
+    expect(clusters.get('a1')).not.toBe(clusters.get('b1'));
+  });
+
+  it('ignores mute edges', () => {
+    const data = createGraph(['a', 'b'], [['a', 'b']], 'muted');
+    const clusters = detectCommunities(data);
+
+    expect(clusters.get('a')).not.toBe(clusters.get('b'));
+  });
+
+  it('numbers the largest cluster 0', () => {
+    const data = createGraph(['a', 'b', 'c', 'd'], [['b', 'c'], ['c', 'd']]);
+    const clusters = detectCommunities(data);
+
+    expect(clusters.get('b')).toBe(0);
+    expect(clusters.get('a')).toBe(1);
+  });
+});
+
+describe('summarizeCommunities', () => {
+  it('lists the most followed members first', () => {
+    const data = createGraph(['a', 'b', 'c'], []);
+    data.nodes.forEach(node => { node.cluster = 0; });
+    data.links = [
+      { source: 'a', target: 'c', type: 'one-way' },
+      { source: 'b', target: 'c', type: 'one-way' },
+      { source: 'c', target: 'b', type: 'one-way' },
+    ];
+
+    const [summary] = summarizeCommunities(data, 2);
+
+    expect(summary.size).toBe(3);
+    expect(summary.topMembers.map(node => node.id)).toEqual(['c', 'b']);
+  });
+});
@@ -0,0 +1,180 @@
+// Community detection for the social graph using the Louvain method
+
+import type { GraphData, GraphNode } from '@/lib/forceGraph';
+
+export interface CommunitySummary {
+  id: number;
+  color: string;
+  size: number;
+  /** Members with the most followers inside the graph, most followed first */
+  topMembers: GraphNode[];
+}
+
+// Tailwind 500 shades, chosen to stay distinct from the root purple
+const CLUSTER_COLORS = [
+  '#3b82f6', // blue
+  '#10b981', // emerald
+  '#f59e0b', // amber
+  '#ec4899', // pink
+  '#06b6d4', // cyan
+  '#84cc16', // lime
+  '#f97316', // orange
+  '#6366f1', // indigo
+  '#14b8a6', // teal
+  '#eab308', // yellow
+];
+
+/** Color for a cluster id; ids beyond the palette wrap around */
+export function clusterColor(cluster: number): string {
+  return CLUSTER_COLORS[cluster % CLUSTER_COLORS.length];
+}
+
+/**
+ * Move nodes between communities while modularity improves (Louvain phase one).
+ * `adjacency[i]` maps neighbour index to edge weight and is symmetric; a
+ * self-loop entry holds the weight inside an aggregated community.
+ * Returns the community of each node, or null if no node moved.
+ */
+function moveNodes(adjacency: Map<number, number>[], maxPasses: number): number[] | null {
+  const count = adjacency.length;
+  const degree = adjacency.map(edges => [...edges.values()].reduce((sum, w) => sum + w, 0));
+  const totalWeight = degree.reduce((sum, d) => sum + d, 0);
+  if (totalWeight === 0) return null;
+
+  const community = adjacency.map((_, i) => i);
+  const communityDegree = [...degree];
+  let moved = false;
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < count; i++) {
+      const current = community[i];
+
+      // Edge weight from node i into each neighbouring community
+      const weights = new Map<number, number>();
+      for (const [j, weight] of adjacency[i]) {
+        if (j !== i) {
+          weights.set(community[j], (weights.get(community[j]) ?? 0) + weight);
+        }
+      }
+
+      // Modularity gain of placing i in a community, up to a constant factor
+      communityDegree[current] -= degree[i];
+      const gain = (c: number) => (weights.get(c) ?? 0) - (communityDegree[c] * degree[i]) / totalWeight;
+
+      // Prefer the current community on ties, otherwise the lowest id
+      let best = current;
+      let bestGain = gain(current);
+      for (const c of weights.keys()) {
+        const candidate = gain(c);
+        if (candidate > bestGain + 1e-12 || (candidate > bestGain - 1e-12 && c < best && best !== current)) {
+          best = c;
+          bestGain = candidate;
+        }
+      }
+      communityDegree[best] += degree[i];
+
+      if (best !== current) {
+        community[i] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return moved ? community : null;
+}
+
+/**
+ * Assign every node a cluster id with the Louvain method.
+ *
+ * Follow edges are treated as undirected, so a mutual follow weighs twice as
+ * much as a one-way follow; mutes are ignored. Nodes are visited in a fixed
+ * order, so the result is deterministic. Cluster ids are renumbered so that
+ * 0 is the largest cluster.
+ */
+export function detectCommunities(data: GraphData, maxPasses = 20): Map<string, number> {
+  const ids = data.nodes.map(node => node.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+
+  let adjacency: Map<number, number>[] = ids.map(() => new Map());
+  for (const link of data.links) {
+    if (link.type === 'muted' || link.source === link.target) continue;
+
+    const source = index.get(link.source);
+    const target = index.get(link.target);
+    if (source === undefined || target === undefined) continue;
+
+    adjacency[source].set(target, (adjacency[source].get(target) ?? 0) + 1);
+    adjacency[target].set(source, (adjacency[target].get(source) ?? 0) + 1);
+  }
+
+  // Community of every original node, refined level by level
+  let membership = ids.map((_, i) => i);
+
+  for (;;) {
+    const community = moveNodes(adjacency, maxPasses);
+    if (!community) break;
+
+    // Renumber communities densely and fold them into single nodes
+    const renumber = new Map<number, number>();
+    for (const c of community) {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+    }
+
+    const aggregated: Map<number, number>[] = [...renumber.keys()].map(() => new Map());
+    adjacency.forEach((edges, i) => {
+      const ci = renumber.get(community[i])!;
+      for (const [j, weight] of edges) {
+        const cj = renumber.get(community[j])!;
+        aggregated[ci].set(cj, (aggregated[ci].get(cj) ?? 0) + weight);
+      }
+    });
+
+    membership = membership.map(node => renumber.get(community[node])!);
+    adjacency = aggregated;
+  }
+
+  // Renumber clusters by size, largest first
+  const sizes = new Map<number, number>();
+  for (const c of membership) {
+    sizes.set(c, (sizes.get(c) ?? 0) + 1);
+  }
+  const order = [...sizes.keys()].sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const renumbered = new Map(order.map((c, i) => [c, i]));
+
+  return new Map(ids.map((id, i) => [id, renumbered.get(membership[i])!]));
+}
+
+/**
+ * Summarize the clusters present on the nodes of `data`, largest first.
+ * Members are ranked by how many nodes in the graph follow them.
+ */
+export function summarizeCommunities(data: GraphData, topCount = 3): CommunitySummary[] {
+  const inDegree = new Map<string, number>();
+  for (const link of data.links) {
+    if (link.type !== 'muted') {
+      inDegree.set(link.target, (inDegree.get(link.target) ?? 0) + 1);
+    }
+  }
+
+  const members = new Map<number, GraphNode[]>();
+  for (const node of data.nodes) {
+    if (node.cluster === undefined) continue;
+    members.set(node.cluster, [...(members.get(node.cluster) ?? []), node]);
+  }
+
+  return [...members.entries()]
+    .map(([id, nodes]) => ({
+      id,
+      color: clusterColor(id),
+      size: nodes.length,
+      topMembers: [...nodes]
+        .sort((a, b) => (inDegree.get(b.id) ?? 0) - (inDegree.get(a.id) ?? 0))
+        .slice(0, topCount),
+    }))
+    .sort((a, b) => b.size - a.size || a.id - b.id);
+}
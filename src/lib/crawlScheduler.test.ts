@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { chunkArray, runChunked } from './crawlScheduler';
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+describe('chunkArray', () => {
+  it('splits into bounded chunks', () => {
+    expect(chunkArray(range(5), 2)).toEqual([[0, 1], [2, 3], [4]]);
+    expect(chunkArray([], 2)).toEqual([]);
+  });
+});
+
+describe('runChunked', () => {
+  it('merges chunk results in order', async () => {
+    const results = await runChunked(range(250), async (chunk) => chunk.length, { chunkSize: 100 });
+
+    expect(results).toEqual([100, 100, 50]);
+  });
+
+  it('limits how many chunks run at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runChunked(range(10), async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    }, { chunkSize: 1, concurrency: 3 });
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('retries failed chunks and skips chunks that keep failing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const attempts = new Map<number, number>();
+    const failures: unknown[] = [];
+
+    const results = await runChunked(range(3), async ([item]) => {
+      const attempt = (attempts.get(item) ?? 0) + 1;
+      attempts.set(item, attempt);
+      if (item === 1 && attempt < 2) throw new Error('flaky');
+      if (item === 2) throw new Error('down');
+      return item;
+    }, { chunkSize: 1, retries: 2, retryDelay: 1, onChunkFailed: error => failures.push(error) });
+
+    expect(results).toEqual([0, 1]);
+    expect(failures).toEqual([new Error('down')]);
+    expect(attempts.get(1)).toBe(2);
+    expect(attempts.get(2)).toBe(3);
+    warn.mockRestore();
+  });
+
+  it('retries chunks that time out even when the task resolves with partial results', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let attempts = 0;
+
+    // Like NPool.query, which returns what it has instead of throwing on abort
+    const results = await runChunked(range(1), (_chunk, signal) => {
+      attempts++;
+      return new Promise<string>(resolve => signal.addEventListener('abort', () => resolve('partial')));
+    }, { chunkSize: 1, retries: 1, timeout: 10, retryDelay: 1 });
+
+    expect(results).toEqual([]);
+    expect(attempts).toBe(2);
+    warn.mockRestore();
+  });
+
+  it('stops starting chunks once aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const results = await runChunked(range(5), async ([item]) => {
+      started.push(item);
+      if (item === 1) controller.abort();
+      return item;
+    }, { chunkSize: 1, concurrency: 1, signal: controller.signal });
+
+    expect(started).toEqual([0, 1]);
+    expect(results).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,100 @@
+// Relay-friendly scheduling for queries over large author lists
+
+export interface ChunkedQueryOptions {
+  /** Most items per chunk, keeping filters small enough for relays to accept */
+  chunkSize?: number;
+  /** Most chunks queried at the same time */
+  concurrency?: number;
+  /** Extra attempts for a chunk that failed or timed out */
+  retries?: number;
+  /** Milliseconds before a single attempt is given up, even if the task resolves with what it has */
+  timeout?: number;
+  /** Milliseconds to wait before the first retry, doubled on every further retry */
+  retryDelay?: number;
+  signal?: AbortSignal;
+  /** Called for each chunk skipped after its last attempt failed, so callers can tell results are incomplete */
+  onChunkFailed?: (error: unknown) => void;
+}
+
+/** Split `items` into consecutive chunks of at most `size` items */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Run `task` over `items` in bounded chunks with limited concurrency.
+ *
+ * Each chunk gets its own timeout and is retried with backoff when it fails
+ * or runs out of time, whether the task throws or resolves with partial results.
+ * Chunks that still fail are skipped, so the results cover every chunk that
+ * succeeded, in chunk order. Once `signal` aborts no new chunks are started
+ * and the results collected so far are returned.
+ */
+export async function runChunked<T, R>(
+  items: T[],
+  task: (chunk: T[], signal: AbortSignal) => Promise<R>,
+  options: ChunkedQueryOptions = {}
+): Promise<R[]> {
+  const { chunkSize = 100, concurrency = 3, retries = 2, timeout = 8000, retryDelay = 500, signal, onChunkFailed } = options;
+
+  const chunks = chunkArray(items, chunkSize);
+  const results: (R | undefined)[] = new Array(chunks.length);
+  const succeeded = new Set<number>();
+  let next = 0;
+
+  const runChunk = async (index: number) => {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (signal?.aborted) return;
+
+      const attemptSignal = signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(timeout)])
+        : AbortSignal.timeout(timeout);
+
+      try {
+        const result = await task(chunks[index], attemptSignal);
+        // A pool returns partial results instead of throwing when an attempt times out
+        if (attemptSignal.aborted && !signal?.aborted) {
+          throw new Error(`Timed out after ${timeout}ms`);
+        }
+        results[index] = result;
+        succeeded.add(index);
+        return;
+      } catch (error) {
+        if (signal?.aborted) return;
+        if (attempt === retries) {
+          console.warn(`[CrawlScheduler] Chunk ${index + 1} of ${chunks.length} failed:`, error);
+          onChunkFailed?.(error);
+          return;
+        }
+        await delay(retryDelay * 2 ** attempt, signal);
+      }
+    }
+  };
+
+  // Each worker keeps pulling the next unstarted chunk
+  const worker = async () => {
+    while (next < chunks.length && !signal?.aborted) {
+      await runChunk(next++);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return results.filter((_, index) => succeeded.has(index)) as R[];
+}
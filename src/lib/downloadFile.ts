@@ -0,0 +1,21 @@
+/** Save text content as a file through a temporary download link */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = globalThis.URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename.replace(/[^a-z0-9._-]/gi, '_');
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+
+  globalThis.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+/** Quote a CSV field when it contains a delimiter, quote or line break */
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { buildFollowHistory, followsAt } from './followHistory';
+
+function contactList(id: string, createdAt: number, follows: string[]): NostrEvent {
+  return {
+    id,
+    pubkey: 'root',
+    created_at: createdAt,
+    kind: 3,
+    tags: follows.map(pk => ['p', pk]),
+    content: '',
+    sig: 'sig',
+  };
+}
+
+describe('buildFollowHistory', () => {
+  it('diffs consecutive versions into follows and unfollows', () => {
+    const history = buildFollowHistory([
+      contactList('v2', 200, ['a', 'c']),
+      contactList('v1', 100, ['a', 'b']),
+      contactList('v2', 200, ['a', 'c']),
+    ]);
+
+    expect(history.versions.map(v => v.id)).toEqual(['v1', 'v2']);
+    expect(history.changes).toEqual([
+      { pubkey: 'a', type: 'follow', createdAt: 100 },
+      { pubkey: 'b', type: 'follow', createdAt: 100 },
+      { pubkey: 'c', type: 'follow', createdAt: 200 },
+      { pubkey: 'b', type: 'unfollow', createdAt: 200 },
+    ]);
+  });
+
+  it('returns an empty history without events', () => {
+    expect(buildFollowHistory([])).toEqual({ versions: [], changes: [] });
+  });
+});
+
+describe('followsAt', () => {
+  it('picks the newest version published by the given time', () => {
+    const history = buildFollowHistory([
+      contactList('v1', 100, ['a']),
+      contactList('v2', 200, ['a', 'b']),
+    ]);
+
+    expect(followsAt(history, 50)).toEqual([]);
+    expect(followsAt(history, 150)).toEqual(['a']);
+    expect(followsAt(history, 200)).toEqual(['a', 'b']);
+  });
+});
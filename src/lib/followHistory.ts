@@ -0,0 +1,72 @@
+// Replaying how a contact list changed across its stored kind 3 versions
+
+import type { NostrEvent } from '@nostrify/nostrify';
+import { parseContactList } from '@/lib/graphCrawl';
+
+export interface ContactListVersion {
+  id: string;
+  createdAt: number;
+  follows: string[];
+}
+
+export interface FollowChange {
+  pubkey: string;
+  type: 'follow' | 'unfollow';
+  createdAt: number;
+}
+
+export interface FollowHistory {
+  /** Contact list versions, oldest first */
+  versions: ContactListVersion[];
+  /** Follows and unfollows between consecutive versions, oldest first */
+  changes: FollowChange[];
+}
+
+/**
+ * Diff every version of a contact list against the one before it.
+ * Follows in the oldest version count as follows made at its timestamp.
+ * Duplicate events are ignored.
+ */
+export function buildFollowHistory(events: NostrEvent[]): FollowHistory {
+  const unique = new Map(events.filter(event => event.kind === 3).map(event => [event.id, event]));
+
+  const versions = [...unique.values()]
+    .sort((a, b) => a.created_at - b.created_at || a.id.localeCompare(b.id))
+    .map(event => ({
+      id: event.id,
+      createdAt: event.created_at,
+      follows: [...new Set(parseContactList(event))],
+    }));
+
+  const changes: FollowChange[] = [];
+  let previous = new Set<string>();
+
+  for (const version of versions) {
+    const current = new Set(version.follows);
+
+    for (const pubkey of version.follows) {
+      if (!previous.has(pubkey)) {
+        changes.push({ pubkey, type: 'follow', createdAt: version.createdAt });
+      }
+    }
+    for (const pubkey of previous) {
+      if (!current.has(pubkey)) {
+        changes.push({ pubkey, type: 'unfollow', createdAt: version.createdAt });
+      }
+    }
+
+    previous = current;
+  }
+
+  return { versions, changes };
+}
+
+/** Pubkeys followed at `timestamp`, i.e. in the newest version published by then */
+export function followsAt(history: FollowHistory, timestamp: number): string[] {
+  let follows: string[] = [];
+  for (const version of history.versions) {
+    if (version.createdAt > timestamp) break;
+    follows = version.follows;
+  }
+  return follows;
+}
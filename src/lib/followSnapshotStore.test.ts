@@ -0,0 +1,42 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import type { FollowSnapshot } from './followSnapshots';
+import { MAX_SNAPSHOTS_PER_ROOT } from './followSnapshots';
+import { readFollowSnapshots, saveFollowSnapshot } from './followSnapshotStore';
+import { stores } from '@/test/fakeIdb';
+
+// jsdom has no IndexedDB
+vi.mock('idb', () => import('@/test/fakeIdb'));
+
+function snapshot(takenAt: number, rootPubkey = 'root'): FollowSnapshot {
+  return { rootPubkey, takenAt, following: [`f${takenAt}`], followers: [] };
+}
+
+beforeEach(() => {
+  stores.clear();
+  localStorage.clear();
+});
+
+describe('followSnapshotStore', () => {
+  it('keeps snapshots per root, replacing the one from the current visit', async () => {
+    await saveFollowSnapshot(snapshot(100), 150);
+    await saveFollowSnapshot(snapshot(200), 150);
+    await saveFollowSnapshot(snapshot(300), 150);
+    await saveFollowSnapshot(snapshot(100, 'other'), 150);
+
+    expect((await readFollowSnapshots('root')).map(s => s.takenAt)).toEqual([100, 300]);
+    expect((await readFollowSnapshots('other')).map(s => s.takenAt)).toEqual([100]);
+    expect(await readFollowSnapshots('nobody')).toEqual([]);
+  });
+
+  it('moves snapshots out of localStorage', async () => {
+    const legacy = Array.from({ length: MAX_SNAPSHOTS_PER_ROOT }, (_, i) => snapshot(i + 1));
+    localStorage.setItem('graph-follow-snapshots', JSON.stringify([...legacy, snapshot(5, 'other')]));
+    await saveFollowSnapshot(snapshot(50), 50);
+
+    const migrated = await readFollowSnapshots('root');
+    expect(migrated).toHaveLength(MAX_SNAPSHOTS_PER_ROOT);
+    expect(migrated.at(-1)).toEqual(snapshot(50));
+    expect((await readFollowSnapshots('other')).map(s => s.takenAt)).toEqual([5]);
+    expect(localStorage.getItem('graph-follow-snapshots')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { openDB, type IDBPDatabase } from 'idb';
+import { addSnapshot, MAX_SNAPSHOTS_PER_ROOT, type FollowSnapshot } from '@/lib/followSnapshots';
+
+// ============================================================================
+// IndexedDB Schema
+// ============================================================================
+
+// Use domain-based naming to avoid conflicts between apps on same domain
+const getDBName = () => {
+  const hostname = typeof window !== 'undefined' ? window.location.hostname : 'default';
+  return `nostr-follow-snapshots-${hostname}`;
+};
+const DB_NAME = getDBName();
+const DB_VERSION = 1;
+/** Each root's snapshots, oldest first, keyed by root pubkey */
+const SNAPSHOTS_STORE = 'snapshots';
+
+// Where snapshots were kept before they outgrew localStorage
+const LEGACY_STORAGE_KEY = 'graph-follow-snapshots';
+
+// ============================================================================
+// Database Operations
+// ============================================================================
+
+/**
+ * Open the IndexedDB database
+ */
+async function openDatabase(): Promise<IDBPDatabase> {
+  return openDB(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE);
+      }
+    },
+  });
+}
+
+/**
+ * Move snapshots saved to localStorage by earlier versions into IndexedDB
+ */
+async function migrateLegacySnapshots(db: IDBPDatabase): Promise<void> {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  let legacy: FollowSnapshot[];
+  try {
+    legacy = JSON.parse(stored);
+  } catch {
+    legacy = [];
+  }
+
+  const byRoot = new Map<string, FollowSnapshot[]>();
+  for (const snapshot of Array.isArray(legacy) ? legacy : []) {
+    byRoot.set(snapshot.rootPubkey, [...(byRoot.get(snapshot.rootPubkey) ?? []), snapshot]);
+  }
+
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  await Promise.all([...byRoot].map(async ([rootPubkey, snapshots]) => {
+    const existing = (await tx.store.get(rootPubkey) as FollowSnapshot[] | undefined) ?? [];
+    const merged = [...snapshots, ...existing].sort((a, b) => a.takenAt - b.takenAt).slice(-MAX_SNAPSHOTS_PER_ROOT);
+    await tx.store.put(merged, rootPubkey);
+  }));
+  await tx.done;
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/**
+ * Read the stored snapshots of one root, oldest first
+ */
+export async function readFollowSnapshots(rootPubkey: string): Promise<FollowSnapshot[]> {
+  try {
+    const db = await openDatabase();
+    await migrateLegacySnapshots(db);
+    return (await db.get(SNAPSHOTS_STORE, rootPubkey) as FollowSnapshot[] | undefined) ?? [];
+  } catch (error) {
+    console.error('[FollowSnapshotStore] Error reading from IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Store a snapshot next to the earlier ones for its root.
+ * A snapshot taken at or after `replaceAfter` replaces the newest one instead.
+ */
+export async function saveFollowSnapshot(snapshot: FollowSnapshot, replaceAfter: number): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await migrateLegacySnapshots(db);
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const existing = (await tx.store.get(snapshot.rootPubkey) as FollowSnapshot[] | undefined) ?? [];
+    await tx.store.put(addSnapshot(existing, snapshot, replaceAfter), snapshot.rootPubkey);
+    await tx.done;
+  } catch (error) {
+    console.error('[FollowSnapshotStore] Error writing to IndexedDB:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { addSnapshot, countChanges, diffSnapshots, followDiffToCsv, type FollowSnapshot } from './followSnapshots';
+
+const ALICE = '0'.repeat(64);
+const BOB = '1'.repeat(64);
+const CAROL = '2'.repeat(64);
+
+function snapshot(takenAt: number, following: string[], followers: string[], rootPubkey = 'root'): FollowSnapshot {
+  return { rootPubkey, takenAt, following, followers };
+}
+
+describe('diffSnapshots', () => {
+  it('lists additions and removals on both sides', () => {
+    const diff = diffSnapshots(
+      snapshot(100, [ALICE, BOB], [CAROL]),
+      snapshot(200, [BOB, CAROL], [ALICE])
+    );
+
+    expect(diff).toEqual({
+      since: 100,
+      until: 200,
+      newFollowing: [CAROL],
+      unfollowed: [ALICE],
+      newFollowers: [ALICE],
+      lostFollowers: [CAROL],
+    });
+    expect(countChanges(diff)).toBe(4);
+  });
+});
+
+describe('addSnapshot', () => {
+  it('replaces snapshots from the current visit and keeps other roots', () => {
+    const stored = [snapshot(100, [], []), snapshot(150, [], [], 'other'), snapshot(210, [], [])];
+    const next = addSnapshot(stored, snapshot(220, [ALICE], []), 200);
+
+    expect(next.map(s => `${s.rootPubkey}@${s.takenAt}`)).toEqual(['other@150', 'root@100', 'root@220']);
+  });
+});
+
+describe('followDiffToCsv', () => {
+  it('writes one row per change with names', () => {
+    const csv = followDiffToCsv(
+      diffSnapshots(snapshot(0, [], []), snapshot(0, [ALICE], [])),
+      new Map([[ALICE, 'Alice, "A"']])
+    );
+    const [header, row] = csv.split('\n');
+
+    expect(header).toBe('change,pubkey,npub,name,since,until');
+    expect(row).toContain(`Started following,${ALICE},npub1`);
+    expect(row).toContain('"Alice, ""A"""');
+  });
+});
@@ -0,0 +1,95 @@
+// Dated snapshots of a user's following and follower sets, and diffs between them
+
+import { nip19 } from 'nostr-tools';
+import { csvField } from '@/lib/downloadFile';
+
+export interface FollowSnapshot {
+  rootPubkey: string;
+  /** Unix seconds */
+  takenAt: number;
+  following: string[];
+  followers: string[];
+}
+
+export interface FollowDiff {
+  since: number;
+  until: number;
+  newFollowing: string[];
+  unfollowed: string[];
+  newFollowers: string[];
+  lostFollowers: string[];
+}
+
+export type FollowChangeKind = Exclude<keyof FollowDiff, 'since' | 'until'>;
+
+export const FOLLOW_CHANGE_LABELS: Record<FollowChangeKind, string> = {
+  newFollowing: 'Started following',
+  unfollowed: 'Unfollowed',
+  newFollowers: 'New followers',
+  lostFollowers: 'Lost followers',
+};
+
+/** Snapshots kept per root; older ones are dropped */
+export const MAX_SNAPSHOTS_PER_ROOT = 10;
+
+const difference = (a: string[], b: string[]) => {
+  const exclude = new Set(b);
+  return [...new Set(a)].filter(pk => !exclude.has(pk));
+};
+
+/** What changed in the following and follower sets from `previous` to `current` */
+export function diffSnapshots(previous: FollowSnapshot, current: FollowSnapshot): FollowDiff {
+  return {
+    since: previous.takenAt,
+    until: current.takenAt,
+    newFollowing: difference(current.following, previous.following),
+    unfollowed: difference(previous.following, current.following),
+    newFollowers: difference(current.followers, previous.followers),
+    lostFollowers: difference(previous.followers, current.followers),
+  };
+}
+
+/** Total number of changes in a diff */
+export function countChanges(diff: FollowDiff): number {
+  return (Object.keys(FOLLOW_CHANGE_LABELS) as FollowChangeKind[])
+    .reduce((sum, kind) => sum + diff[kind].length, 0);
+}
+
+/**
+ * Append `snapshot` to the stored ones for its root, oldest first.
+ * A snapshot taken at or after `replaceAfter` replaces the newest one instead,
+ * so repeated refreshes within a visit don't pile up.
+ */
+export function addSnapshot(
+  snapshots: FollowSnapshot[],
+  snapshot: FollowSnapshot,
+  replaceAfter: number
+): FollowSnapshot[] {
+  const kept = snapshots.filter(s => s.rootPubkey !== snapshot.rootPubkey || s.takenAt < replaceAfter);
+  const forRoot = [...kept.filter(s => s.rootPubkey === snapshot.rootPubkey), snapshot]
+    .slice(-MAX_SNAPSHOTS_PER_ROOT);
+
+  return [...kept.filter(s => s.rootPubkey !== snapshot.rootPubkey), ...forRoot];
+}
+
+/** CSV report with one row per change */
+export function followDiffToCsv(diff: FollowDiff, labels: Map<string, string> = new Map()): string {
+  const rows = ['change,pubkey,npub,name,since,until'];
+  const since = new Date(diff.since * 1000).toISOString();
+  const until = new Date(diff.until * 1000).toISOString();
+
+  for (const kind of Object.keys(FOLLOW_CHANGE_LABELS) as FollowChangeKind[]) {
+    for (const pubkey of diff[kind]) {
+      rows.push([
+        FOLLOW_CHANGE_LABELS[kind],
+        pubkey,
+        nip19.npubEncode(pubkey),
+        labels.get(pubkey) ?? '',
+        since,
+        until,
+      ].map(csvField).join(','));
+    }
+  }
+
+  return rows.join('\n');
+}
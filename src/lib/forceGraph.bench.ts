@@ -0,0 +1,17 @@
+import { bench, describe } from 'vitest';
+import { HEIGHT, pairwiseTick, randomGraph, WIDTH } from '@/test/forceGraphFixtures';
+import { ForceDirectedGraph } from './forceGraph';
+
+// Run with `npx vitest bench`; Barnes–Hut should stay well ahead of the exact O(n²) step
+describe.each([500, 2000])('one layout tick, %i nodes', (nodeCount) => {
+  const graph = new ForceDirectedGraph(randomGraph(nodeCount, nodeCount * 2), WIDTH, HEIGHT);
+  const exact = randomGraph(nodeCount, nodeCount * 2);
+
+  bench('Barnes–Hut', () => {
+    graph.tick();
+  });
+
+  bench('pairwise', () => {
+    pairwiseTick(exact);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { HEIGHT, pairwiseTick, randomGraph, WIDTH } from '@/test/forceGraphFixtures';
+import { ForceDirectedGraph, type GraphData, type GraphNode } from './forceGraph';
+
+function distance(a: GraphNode, b: GraphNode): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/** Velocity error of a Barnes–Hut step relative to the exact one */
+function relativeError(graph: ForceDirectedGraph, exact: GraphData): number {
+  let error = 0;
+  let magnitude = 0;
+  for (const node of exact.nodes) {
+    const approximate = graph.getNode(node.id)!;
+    error += Math.hypot(approximate.vx - node.vx, approximate.vy - node.vy);
+    magnitude += Math.hypot(node.vx, node.vy);
+  }
+  return error / magnitude;
+}
+
+function kineticEnergy(nodes: GraphNode[]): number {
+  return nodes.reduce((sum, node) => sum + node.vx * node.vx + node.vy * node.vy, 0);
+}
+
+describe('ForceDirectedGraph', () => {
+  it('pulls linked nodes together and keeps unlinked ones apart', () => {
+    const { nodes } = randomGraph(3, 0);
+    const graph = new ForceDirectedGraph({ nodes, links: [{ source: 'n0', target: 'n1' }] }, 800, 600);
+
+    for (let i = 0; i < 300; i++) graph.tick();
+
+    const [a, b, c] = ['n0', 'n1', 'n2'].map(id => graph.getNode(id)!);
+    expect(distance(a, b)).toBeLessThan(distance(a, c));
+    expect(distance(a, b)).toBeLessThan(distance(b, c));
+    expect(graph.findNodeAt(c.x, c.y)?.id).toBe('n2');
+  });
+
+  it('survives coincident nodes', () => {
+    const nodes = randomGraph(50, 0).nodes.map(node => ({ ...node, x: 100, y: 100 }));
+    const graph = new ForceDirectedGraph({ nodes, links: [] }, 800, 600);
+
+    graph.tick();
+
+    for (const node of graph.getNodes()) {
+      expect(Number.isFinite(node.x) && Number.isFinite(node.y)).toBe(true);
+    }
+  });
+
+  it('leaves pinned nodes where they were put', () => {
+    const { nodes } = randomGraph(20, 0);
+    const graph = new ForceDirectedGraph({ nodes, links: [{ source: 'n0', target: 'n1' }] }, 800, 600);
+
+    graph.moveNode('n0', -500, 900);
+    graph.setPinned('n0', true);
+    for (let i = 0; i < 50; i++) graph.tick();
+
+    const pinned = graph.getNode('n0')!;
+    expect([pinned.x, pinned.y]).toEqual([-500, 900]);
+    expect(graph.getNode('n1')!.x).not.toBe(nodes[1].x);
+  });
+
+  it('hit-tests through the viewport transform', () => {
+    const { nodes } = randomGraph(1, 0);
+    const graph = new ForceDirectedGraph({ nodes: [{ ...nodes[0], x: 100, y: 50 }], links: [] }, 800, 600);
+    const viewport = { x: 20, y: 10, k: 2 };
+
+    expect(graph.findNodeAt(220, 110, viewport)?.id).toBe('n0');
+    expect(graph.findNodeAt(100, 50, viewport)).toBeUndefined();
+  });
+
+  it('approximates pairwise repulsion closely', () => {
+    const data = randomGraph(500, 500);
+    const graph = new ForceDirectedGraph(data, WIDTH, HEIGHT);
+    const exact = randomGraph(500, 500);
+
+    graph.tick();
+    pairwiseTick(exact);
+
+    expect(relativeError(graph, exact)).toBeLessThan(0.05);
+  });
+
+  it('stays accurate on large graphs', () => {
+    const data = randomGraph(2000, 4000, 2);
+    const graph = new ForceDirectedGraph(data, WIDTH, HEIGHT);
+    const exact = randomGraph(2000, 4000, 2);
+
+    graph.tick();
+    pairwiseTick(exact);
+
+    expect(relativeError(graph, exact)).toBeLessThan(0.05);
+  });
+
+  it('lays out 5,000 nodes', () => {
+    const graph = new ForceDirectedGraph(randomGraph(5000, 10000), WIDTH, HEIGHT);
+
+    // Repulsion first spreads the random start out, then damping settles it
+    for (let i = 0; i < 5; i++) graph.tick();
+    const spreading = kineticEnergy(graph.getNodes());
+    for (let i = 0; i < 35; i++) graph.tick();
+
+    const nodes = graph.getNodes();
+    expect(nodes.every(node => Number.isFinite(node.x) && Number.isFinite(node.y))).toBe(true);
+    expect(kineticEnergy(nodes)).toBeLessThan(spreading * 0.9);
+    const extent = Math.max(...nodes.map(node => Math.hypot(node.x - WIDTH / 2, node.y - HEIGHT / 2)));
+    expect(extent).toBeLessThan(WIDTH * 2);
+  }, 20000);
+});
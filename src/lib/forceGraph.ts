@@ -1,5 +1,7 @@
 // Force-directed graph layout engine for social graph visualization
 
+import { IDENTITY_VIEWPORT, screenToWorld, type Viewport } from '@/lib/viewport';
+
 export interface GraphNode {
   id: string;
   label: string;
@@ -11,11 +13,23 @@ export interface GraphNode {
   radius: number;
   color: string;
   isRoot?: boolean;
+  /** Community id assigned by community detection */
+  cluster?: number;
+  /** Whether the node's follows were merged into the graph on demand */
+  expanded?: boolean;
+  /** Held in place by the user; the layout doesn't move pinned nodes */
+  pinned?: boolean;
 }
 
+/** How the source relates to the target: reciprocal follow, one-way follow or mute */
+export type GraphLinkType = 'mutual' | 'one-way' | 'muted';
+
 export interface GraphLink {
   source: string;
   target: string;
+  type?: GraphLinkType;
+  /** Strength of the relationship, e.g. an interaction count; scales the drawn width */
+  weight?: number;
 }
 
 export interface GraphData {
@@ -23,17 +37,115 @@ export interface GraphData {
   links: GraphLink[];
 }
 
+/** Quadtree cell for Barnes–Hut repulsion, summarizing the nodes inside it */
+interface QuadCell {
+  // Bounds: top-left corner and side length
+  x: number;
+  y: number;
+  size: number;
+  /** Number of nodes inside */
+  mass: number;
+  /** Center of mass */
+  cx: number;
+  cy: number;
+  /** Nodes of a leaf; coincident nodes share one */
+  nodes?: GraphNode[];
+  children?: (QuadCell | undefined)[];
+}
+
+// Cells smaller than this stop splitting, so coincident nodes can't recurse forever
+const MIN_CELL_SIZE = 1e-3;
+
+function createCell(x: number, y: number, size: number): QuadCell {
+  return { x, y, size, mass: 0, cx: 0, cy: 0 };
+}
+
+function insertNode(cell: QuadCell, node: GraphNode): void {
+  // Running center of mass
+  cell.cx = (cell.cx * cell.mass + node.x) / (cell.mass + 1);
+  cell.cy = (cell.cy * cell.mass + node.y) / (cell.mass + 1);
+  cell.mass++;
+
+  if (!cell.children) {
+    if (!cell.nodes) {
+      cell.nodes = [node];
+      return;
+    }
+    if (cell.size < MIN_CELL_SIZE) {
+      cell.nodes.push(node);
+      return;
+    }
+
+    // Split the leaf and push its node down
+    const [existing] = cell.nodes;
+    cell.nodes = undefined;
+    cell.children = [undefined, undefined, undefined, undefined];
+    insertChild(cell, existing);
+  }
+
+  insertChild(cell, node);
+}
+
+function insertChild(cell: QuadCell, node: GraphNode): void {
+  const half = cell.size / 2;
+  const right = node.x >= cell.x + half ? 1 : 0;
+  const bottom = node.y >= cell.y + half ? 1 : 0;
+  const index = bottom * 2 + right;
+
+  let child = cell.children![index];
+  if (!child) {
+    child = createCell(cell.x + right * half, cell.y + bottom * half, half);
+    cell.children![index] = child;
+  }
+  insertNode(child, node);
+}
+
+function buildQuadtree(nodes: GraphNode[]): QuadCell | undefined {
+  if (nodes.length === 0) return undefined;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const node of nodes) {
+    minX = Math.min(minX, node.x);
+    minY = Math.min(minY, node.y);
+    maxX = Math.max(maxX, node.x);
+    maxY = Math.max(maxY, node.y);
+  }
+
+  // Square root cell, padded so nodes on the far edge fall inside
+  const root = createCell(minX, minY, Math.max(maxX - minX, maxY - minY, MIN_CELL_SIZE) * 1.01);
+  for (const node of nodes) {
+    insertNode(root, node);
+  }
+  return root;
+}
+
 export class ForceDirectedGraph {
   private nodes: GraphNode[];
   private links: GraphLink[];
   private width: number;
   private height: number;
 
+  // Lookup indexes, built once since nodes and links don't change
+  private nodeById: Map<string, GraphNode>;
+  /** Indexes of the node pairs pulled together by a link */
+  private springs: [number, number][];
+
+  // Per-tick force accumulators, by node index
+  private fx: Float64Array;
+  private fy: Float64Array;
+
   // Force parameters
   private repulsionStrength = 5000;
   private attractionStrength = 0.01;
   private damping = 0.8;
   private centeringStrength = 0.01;
+  /** Most a node moves per tick; without the old canvas clamp, near-coincident nodes would fly apart */
+  private maxSpeed = 50;
+  /** Barnes–Hut accuracy: cells seen under a smaller size/distance ratio are approximated */
+  private theta = 0.8;
 
   constructor(data: GraphData, width: number, height: number) {
     this.nodes = data.nodes.map(node => ({
@@ -46,106 +158,120 @@ export class ForceDirectedGraph {
     this.links = data.links;
     this.width = width;
     this.height = height;
-  }
 
-  // Calculate repulsion force between two nodes
-  private calculateRepulsion(node1: GraphNode, node2: GraphNode): { fx: number; fy: number } {
-    const dx = node2.x - node1.x;
-    const dy = node2.y - node1.y;
-    const distanceSquared = dx * dx + dy * dy;
-
-    if (distanceSquared === 0) return { fx: 0, fy: 0 };
+    this.nodeById = new Map(this.nodes.map(node => [node.id, node]));
+    const indexById = new Map(this.nodes.map((node, index) => [node.id, index]));
+    this.springs = [];
+    for (const link of this.links) {
+      // Mutes are negative edges and don't pull nodes together
+      if (link.type === 'muted') continue;
 
-    const distance = Math.sqrt(distanceSquared);
-    const force = this.repulsionStrength / distanceSquared;
+      const source = indexById.get(link.source);
+      const target = indexById.get(link.target);
+      if (source !== undefined && target !== undefined && source !== target) {
+        this.springs.push([source, target]);
+      }
+    }
 
-    return {
-      fx: (dx / distance) * force,
-      fy: (dy / distance) * force,
-    };
+    this.fx = new Float64Array(this.nodes.length);
+    this.fy = new Float64Array(this.nodes.length);
   }
 
-  // Calculate attraction force along a link
-  private calculateAttraction(node1: GraphNode, node2: GraphNode): { fx: number; fy: number } {
-    const dx = node2.x - node1.x;
-    const dy = node2.y - node1.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
+  // Add the repulsion on a node from the nodes in a cell, approximating far cells by their center of mass
+  private applyRepulsion(node: GraphNode, cell: QuadCell, force: { fx: number; fy: number }): void {
+    if (cell.nodes) {
+      for (const other of cell.nodes) {
+        if (other === node) continue;
+        this.addRepulsion(node, other.x, other.y, 1, force);
+      }
+      return;
+    }
 
-    if (distance === 0) return { fx: 0, fy: 0 };
+    const dx = cell.cx - node.x;
+    const dy = cell.cy - node.y;
+    const distanceSquared = dx * dx + dy * dy;
 
-    const force = distance * this.attractionStrength;
+    if (cell.size * cell.size < this.theta * this.theta * distanceSquared) {
+      this.addRepulsion(node, cell.cx, cell.cy, cell.mass, force);
+      return;
+    }
 
-    return {
-      fx: (dx / distance) * force,
-      fy: (dy / distance) * force,
-    };
+    for (const child of cell.children!) {
+      if (child) this.applyRepulsion(node, child, force);
+    }
   }
 
-  // Calculate centering force to keep graph centered
-  private calculateCentering(node: GraphNode): { fx: number; fy: number } {
-    const centerX = this.width / 2;
-    const centerY = this.height / 2;
+  // Repulsion from `mass` nodes at (x, y), inverse to the squared distance
+  private addRepulsion(node: GraphNode, x: number, y: number, mass: number, force: { fx: number; fy: number }): void {
+    const dx = x - node.x;
+    const dy = y - node.y;
+    const distanceSquared = dx * dx + dy * dy;
+
+    if (distanceSquared === 0) return;
+
+    const distance = Math.sqrt(distanceSquared);
+    const strength = (this.repulsionStrength * mass) / distanceSquared;
 
-    return {
-      fx: (centerX - node.x) * this.centeringStrength,
-      fy: (centerY - node.y) * this.centeringStrength,
-    };
+    force.fx -= (dx / distance) * strength;
+    force.fy -= (dy / distance) * strength;
   }
 
   // Run one iteration of the force simulation
   public tick(): void {
-    // Calculate forces
-    for (const node of this.nodes) {
-      let fx = 0;
-      let fy = 0;
-
-      // Repulsion from all other nodes
-      for (const other of this.nodes) {
-        if (node.id !== other.id) {
-          const repulsion = this.calculateRepulsion(node, other);
-          fx -= repulsion.fx;
-          fy -= repulsion.fy;
-        }
-      }
+    const { nodes, fx, fy } = this;
 
-      // Attraction along links
-      for (const link of this.links) {
-        let other: GraphNode | undefined;
-        let direction = 1;
-
-        if (link.source === node.id) {
-          other = this.nodes.find(n => n.id === link.target);
-        } else if (link.target === node.id) {
-          other = this.nodes.find(n => n.id === link.source);
-          direction = -1;
-        }
-
-        if (other) {
-          const attraction = this.calculateAttraction(node, other);
-          fx += attraction.fx * direction;
-          fy += attraction.fy * direction;
-        }
-      }
+    // Repulsion between all nodes, through the quadtree
+    const tree = buildQuadtree(nodes);
+    const force = { fx: 0, fy: 0 };
+    for (let i = 0; i < nodes.length; i++) {
+      force.fx = 0;
+      force.fy = 0;
+      this.applyRepulsion(nodes[i], tree!, force);
+      fx[i] = force.fx;
+      fy[i] = force.fy;
+    }
+
+    // Attraction along links pulls both ends together
+    for (const [s, t] of this.springs) {
+      const ax = (nodes[t].x - nodes[s].x) * this.attractionStrength;
+      const ay = (nodes[t].y - nodes[s].y) * this.attractionStrength;
 
-      // Centering force
-      const centering = this.calculateCentering(node);
-      fx += centering.fx;
-      fy += centering.fy;
+      fx[s] += ax;
+      fy[s] += ay;
+      fx[t] -= ax;
+      fy[t] -= ay;
+    }
+
+    const centerX = this.width / 2;
+    const centerY = this.height / 2;
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+
+      // Centering force keeps the graph in view
+      const totalX = fx[i] + (centerX - node.x) * this.centeringStrength;
+      const totalY = fy[i] + (centerY - node.y) * this.centeringStrength;
 
       // Apply forces to velocity
-      node.vx = (node.vx + fx) * this.damping;
-      node.vy = (node.vy + fy) * this.damping;
+      node.vx = (node.vx + totalX) * this.damping;
+      node.vy = (node.vy + totalY) * this.damping;
+
+      const speed = Math.hypot(node.vx, node.vy);
+      if (speed > this.maxSpeed) {
+        node.vx *= this.maxSpeed / speed;
+        node.vy *= this.maxSpeed / speed;
+      }
     }
 
-    // Update positions
-    for (const node of this.nodes) {
+    // Update positions; the view pans and zooms, so nodes aren't clamped to the canvas
+    for (const node of nodes) {
+      if (node.pinned) {
+        node.vx = 0;
+        node.vy = 0;
+        continue;
+      }
       node.x += node.vx;
       node.y += node.vy;
-
-      // Keep nodes within bounds with padding
-      const padding = node.radius + 10;
-      node.x = Math.max(padding, Math.min(this.width - padding, node.x));
-      node.y = Math.max(padding, Math.min(this.height - padding, node.y));
     }
   }
 
@@ -157,18 +283,90 @@ export class ForceDirectedGraph {
     return this.links;
   }
 
+  /** Look up a node by id without scanning the node list */
+  public getNode(id: string): GraphNode | undefined {
+    return this.nodeById.get(id);
+  }
+
   public updateSize(width: number, height: number): void {
     this.width = width;
     this.height = height;
   }
 
-  // Find node at given coordinates
-  public findNodeAt(x: number, y: number): GraphNode | undefined {
-    return this.nodes.find(node => {
-      const dx = node.x - x;
-      const dy = node.y - y;
-      const distanceSquared = dx * dx + dy * dy;
-      return distanceSquared <= node.radius * node.radius;
-    });
+  /** Put a node at (x, y), e.g. while it's dragged */
+  public moveNode(id: string, x: number, y: number): void {
+    const node = this.nodeById.get(id);
+    if (!node) return;
+    node.x = x;
+    node.y = y;
+    node.vx = 0;
+    node.vy = 0;
+  }
+
+  public setPinned(id: string, pinned: boolean): void {
+    const node = this.nodeById.get(id);
+    if (node) node.pinned = pinned;
+  }
+
+  // Find node at given screen coordinates
+  public findNodeAt(x: number, y: number, viewport?: Viewport): GraphNode | undefined {
+    return findNodeAt(this.nodes, x, y, viewport);
   }
 }
+
+// Smallest hit radius on screen, so zoomed-out nodes can still be picked
+const MIN_HIT_RADIUS = 4;
+
+/** The first node whose circle contains the screen point (x, y) under `viewport` */
+export function findNodeAt(
+  nodes: GraphNode[],
+  x: number,
+  y: number,
+  viewport: Viewport = IDENTITY_VIEWPORT
+): GraphNode | undefined {
+  const point = screenToWorld(viewport, x, y);
+  const minRadius = MIN_HIT_RADIUS / viewport.k;
+
+  return nodes.find(node => {
+    const dx = node.x - point.x;
+    const dy = node.y - point.y;
+    const distanceSquared = dx * dx + dy * dy;
+    const radius = Math.max(node.radius, minRadius);
+    return distanceSquared <= radius * radius;
+  });
+}
+
+// Time spent ticking before positions are handed to the renderer, about one frame
+const SLICE_BUDGET_MS = 16;
+
+/** Ticks run after a node is dragged or pinned, so its neighbours settle around it */
+export const REHEAT_ITERATIONS = 100;
+
+/**
+ * Run `iterations` ticks in slices of about one frame, yielding between
+ * slices so messages and events get through. `onSlice` is called after each
+ * slice. Returns a function that stops the run.
+ */
+export function runSimulation(
+  graph: ForceDirectedGraph,
+  iterations: number,
+  onSlice: (done: boolean) => void
+): () => void {
+  let remaining = iterations;
+  let timer: ReturnType<typeof setTimeout>;
+
+  const slice = () => {
+    const start = performance.now();
+    while (remaining > 0 && performance.now() - start < SLICE_BUDGET_MS) {
+      graph.tick();
+      remaining--;
+    }
+    onSlice(remaining === 0);
+    if (remaining > 0) {
+      timer = setTimeout(slice, 0);
+    }
+  };
+
+  timer = setTimeout(slice, 0);
+  return () => clearTimeout(timer);
+}
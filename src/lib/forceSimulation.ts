@@ -0,0 +1,130 @@
+// Force layout that runs in a Web Worker and streams node positions back
+
+import {
+  ForceDirectedGraph,
+  findNodeAt,
+  REHEAT_ITERATIONS,
+  runSimulation,
+  type GraphData,
+  type GraphLink,
+  type GraphNode,
+} from '@/lib/forceGraph';
+import type { SimulationPositions, SimulationRequest } from '@/lib/forceSimulation.worker';
+import type { LayoutHandle } from '@/lib/graphLayouts';
+import type { Viewport } from '@/lib/viewport';
+
+/**
+ * Main-thread handle on a running layout. Node objects are updated in place
+ * as positions arrive, so a renderer can keep drawing `getNodes()` every frame.
+ * Without Worker support (e.g. in tests) the layout runs on the main thread,
+ * in slices between frames. Pinned nodes are placed by the main thread, so
+ * positions streamed back for them are ignored.
+ */
+export class ForceSimulation implements LayoutHandle {
+  private nodes: GraphNode[];
+  private links: GraphLink[];
+  private nodeById: Map<string, GraphNode>;
+  private worker?: Worker;
+  private localGraph?: ForceDirectedGraph;
+  private stopLocal?: () => void;
+
+  constructor(data: GraphData, width: number, height: number, iterations = 300) {
+    // Seed missing positions here, so both threads start from the same layout
+    const nodes = data.nodes.map(node => ({
+      ...node,
+      x: node.x || Math.random() * width,
+      y: node.y || Math.random() * height,
+      vx: node.vx || 0,
+      vy: node.vy || 0,
+    }));
+    this.links = data.links;
+
+    if (typeof Worker === 'undefined') {
+      this.localGraph = new ForceDirectedGraph({ nodes, links: data.links }, width, height);
+      this.nodes = this.localGraph.getNodes();
+      this.stopLocal = runSimulation(this.localGraph, iterations, () => {});
+    } else {
+      this.nodes = nodes;
+      this.worker = new Worker(new URL('./forceSimulation.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SimulationPositions>) => {
+        this.applyPositions(event.data.positions);
+      };
+      this.worker.onerror = (event) => {
+        console.error('[ForceSimulation] Worker failed:', event.message);
+      };
+
+      this.post({ type: 'start', data: { nodes, links: data.links }, width, height, iterations });
+    }
+
+    this.nodeById = new Map(this.nodes.map(node => [node.id, node]));
+  }
+
+  private applyPositions(positions: Float32Array): void {
+    const count = Math.min(this.nodes.length, positions.length / 2);
+    for (let i = 0; i < count; i++) {
+      if (this.nodes[i].pinned) continue;
+      this.nodes[i].x = positions[i * 2];
+      this.nodes[i].y = positions[i * 2 + 1];
+    }
+  }
+
+  public getNodes(): GraphNode[] {
+    return this.nodes;
+  }
+
+  public getLinks(): GraphLink[] {
+    return this.links;
+  }
+
+  public getNode(id: string): GraphNode | undefined {
+    return this.nodeById.get(id);
+  }
+
+  public findNodeAt(x: number, y: number, viewport?: Viewport): GraphNode | undefined {
+    return findNodeAt(this.nodes, x, y, viewport);
+  }
+
+  /** Put a node at (x, y), e.g. while it's dragged, and let the layout settle around it */
+  public moveNode(id: string, x: number, y: number): void {
+    const node = this.nodeById.get(id);
+    if (!node) return;
+
+    if (this.localGraph) {
+      this.localGraph.moveNode(id, x, y);
+      this.reheatLocal();
+    } else {
+      node.x = x;
+      node.y = y;
+      this.post({ type: 'move', id, x, y });
+    }
+  }
+
+  /** Hold a node in place, or hand it back to the layout */
+  public setPinned(id: string, pinned: boolean): void {
+    const node = this.nodeById.get(id);
+    if (!node) return;
+
+    if (this.localGraph) {
+      this.localGraph.setPinned(id, pinned);
+      this.reheatLocal();
+    } else {
+      node.pinned = pinned;
+      this.post({ type: 'pin', id, pinned });
+    }
+  }
+
+  private post(request: SimulationRequest): void {
+    this.worker?.postMessage(request);
+  }
+
+  private reheatLocal(): void {
+    this.stopLocal?.();
+    this.stopLocal = runSimulation(this.localGraph!, REHEAT_ITERATIONS, () => {});
+  }
+
+  /** Stop the layout and release the worker */
+  public dispose(): void {
+    this.stopLocal?.();
+    this.worker?.terminate();
+  }
+}
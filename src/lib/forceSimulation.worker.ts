@@ -0,0 +1,75 @@
+// Web Worker running the force layout off the main thread
+
+import { ForceDirectedGraph, REHEAT_ITERATIONS, runSimulation, type GraphData } from '@/lib/forceGraph';
+
+export interface SimulationStart {
+  type: 'start';
+  data: GraphData;
+  width: number;
+  height: number;
+  iterations: number;
+}
+
+/** A node was dragged to (x, y) */
+export interface SimulationMove {
+  type: 'move';
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface SimulationPin {
+  type: 'pin';
+  id: string;
+  pinned: boolean;
+}
+
+export type SimulationRequest = SimulationStart | SimulationMove | SimulationPin;
+
+export interface SimulationPositions {
+  type: 'positions';
+  /** x and y of every node, interleaved, in the order nodes were sent */
+  positions: Float32Array;
+  done: boolean;
+}
+
+let graph: ForceDirectedGraph | undefined;
+let stop: (() => void) | undefined;
+
+function run(iterations: number): void {
+  stop?.();
+  if (!graph) return;
+
+  const nodes = graph.getNodes();
+  stop = runSimulation(graph, iterations, (done) => {
+    const positions = new Float32Array(nodes.length * 2);
+    for (let i = 0; i < nodes.length; i++) {
+      positions[i * 2] = nodes[i].x;
+      positions[i * 2 + 1] = nodes[i].y;
+    }
+
+    const message: SimulationPositions = { type: 'positions', positions, done };
+    // Hand the buffer over instead of copying it
+    self.postMessage(message, { transfer: [positions.buffer] });
+  });
+}
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      // A new layout replaces the running one
+      graph = new ForceDirectedGraph(request.data, request.width, request.height);
+      run(request.iterations);
+      break;
+    case 'move':
+      graph?.moveNode(request.id, request.x, request.y);
+      run(REHEAT_ITERATIONS);
+      break;
+    case 'pin':
+      graph?.setPinned(request.id, request.pinned);
+      run(REHEAT_ITERATIONS);
+      break;
+  }
+};
@@ -0,0 +1,196 @@
+// Shared helpers for crawling contact lists and profiles from relays
+
+import type { NostrEvent, NostrFilter, NStore } from '@nostrify/nostrify';
+import { readGraphEventsFromDB, writeGraphEventsToDB } from '@/lib/graphStore';
+import { runChunked } from '@/lib/crawlScheduler';
+import { routeAuthors, type OutboxRouting } from '@/lib/outboxRouting';
+
+export interface NostrProfile {
+  pubkey: string;
+  name?: string;
+  picture?: string;
+  display_name?: string;
+}
+
+// Parse kind 3 contact list event to extract followed pubkeys
+export function parseContactList(event: NostrEvent): string[] {
+  return event.tags
+    .filter(tag => tag[0] === 'p')
+    .map(tag => tag[1])
+    .filter(Boolean);
+}
+
+/**
+ * Fetch the newest replaceable event of `kind` for each author.
+ * Cached events are read from IndexedDB first, and relays are only asked
+ * for versions newer than what is already stored. Authors are queried in
+ * bounded chunks so large levels aren't rejected by relays.
+ *
+ * With `outbox` routing, every relay is queried on its own so that authors
+ * can also be found on their write relays and each event's source is recorded.
+ */
+export async function fetchLatestEvents(
+  nostr: NStore,
+  kind: number,
+  authors: string[],
+  signal: AbortSignal,
+  outbox?: OutboxRouting,
+  onChunkFailed?: (error: unknown) => void
+): Promise<Map<string, NostrEvent>> {
+  let latest = new Map<string, NostrEvent>();
+  try {
+    latest = await readGraphEventsFromDB(kind, authors);
+  } catch {
+    // Cache unavailable, fall back to relays only
+  }
+
+  // Uncached authors first, so chunks mostly share the same kind of filter
+  const ordered = [
+    ...authors.filter(pk => !latest.has(pk)),
+    ...authors.filter(pk => latest.has(pk)),
+  ];
+
+  // Ask only for versions newer than the cached ones
+  const queryChunk = (store: NStore, chunk: string[], chunkSignal: AbortSignal) => {
+    const uncached = chunk.filter(pk => !latest.has(pk));
+    const cached = chunk.filter(pk => latest.has(pk));
+
+    const filters: NostrFilter[] = [];
+    if (uncached.length > 0) {
+      filters.push({ kinds: [kind], authors: uncached });
+    }
+    if (cached.length > 0) {
+      const oldest = cached.reduce((min, pk) => Math.min(min, latest.get(pk)!.created_at), Infinity);
+      filters.push({ kinds: [kind], authors: cached, since: oldest + 1 });
+    }
+
+    return store.query(filters, { signal: chunkSignal });
+  };
+
+  const events = outbox
+    ? await queryOutbox(outbox, ordered, queryChunk, signal, onChunkFailed)
+    : (await runChunked(
+      ordered,
+      (chunk, chunkSignal) => queryChunk(nostr, chunk, chunkSignal),
+      { signal, onChunkFailed }
+    )).flat();
+
+  const updated: NostrEvent[] = [];
+  for (const event of events) {
+    const existing = latest.get(event.pubkey);
+    if (!existing || event.created_at > existing.created_at) {
+      latest.set(event.pubkey, event);
+      updated.push(event);
+    }
+  }
+
+  try {
+    await writeGraphEventsToDB(updated);
+  } catch {
+    // Caching is best-effort
+  }
+
+  return latest;
+}
+
+/**
+ * Query each routed relay for its authors, in chunks, recording where every
+ * event was seen.
+ */
+async function queryOutbox(
+  outbox: OutboxRouting,
+  authors: string[],
+  queryChunk: (store: NStore, chunk: string[], signal: AbortSignal) => Promise<NostrEvent[]>,
+  signal: AbortSignal,
+  onChunkFailed?: (error: unknown) => void
+): Promise<NostrEvent[]> {
+  const routes = [...routeAuthors(outbox, authors)];
+
+  const perRelay = await runChunked(routes, async ([[url, relayAuthors]], relaySignal) => {
+    const store = outbox.relay(url);
+    const batches = await runChunked(
+      relayAuthors,
+      (chunk, chunkSignal) => queryChunk(store, chunk, chunkSignal),
+      { signal: relaySignal, retries: 1, onChunkFailed }
+    );
+
+    const events = batches.flat();
+    for (const event of events) {
+      const sources = outbox.sources.get(event.id) ?? new Set<string>();
+      sources.add(url);
+      outbox.sources.set(event.id, sources);
+    }
+    return events;
+  }, { chunkSize: 1, concurrency: 4, retries: 0, timeout: 30000, signal, onChunkFailed });
+
+  return perRelay.flat();
+}
+
+/**
+ * Fetch the contact lists that tag any of the given pubkeys, i.e. their followers.
+ * `limit` applies to each chunk of pubkeys.
+ */
+export async function fetchFollowerEvents(
+  nostr: NStore,
+  pubkeys: string[],
+  limit: number,
+  signal: AbortSignal,
+  onChunkFailed?: (error: unknown) => void
+): Promise<NostrEvent[]> {
+  const batches = await runChunked(
+    pubkeys,
+    (chunk, chunkSignal) => nostr.query([{ kinds: [3], '#p': chunk, limit }], { signal: chunkSignal }),
+    { signal, onChunkFailed }
+  );
+
+  // A follower tagging pubkeys from several chunks is returned once per chunk
+  const events = [...new Map(batches.flat().map(event => [event.id, event])).values()];
+
+  try {
+    await writeGraphEventsToDB(events);
+  } catch {
+    // Caching is best-effort
+  }
+
+  return events;
+}
+
+/**
+ * Parse kind 0 metadata into display profiles.
+ * Every pubkey in `pubkeys` gets an entry, even without (valid) metadata.
+ */
+export function parseProfiles(
+  profileEvents: Map<string, NostrEvent>,
+  pubkeys: string[]
+): Map<string, NostrProfile> {
+  const profileMap = new Map<string, NostrProfile>();
+
+  for (const [pubkey, event] of profileEvents) {
+    try {
+      const metadata = JSON.parse(event.content);
+      profileMap.set(pubkey, {
+        pubkey,
+        name: metadata.name,
+        picture: metadata.picture,
+        display_name: metadata.display_name,
+      });
+    } catch {
+      // Invalid JSON, use pubkey only
+      profileMap.set(pubkey, { pubkey });
+    }
+  }
+
+  // Ensure all pubkeys have a profile entry
+  for (const pubkey of pubkeys) {
+    if (!profileMap.has(pubkey)) {
+      profileMap.set(pubkey, { pubkey });
+    }
+  }
+
+  return profileMap;
+}
+
+/** Display label for a profile, falling back to a shortened pubkey */
+export function profileLabel(profile: NostrProfile | undefined, pubkey: string): string {
+  return profile?.display_name || profile?.name || pubkey.slice(0, 8);
+}
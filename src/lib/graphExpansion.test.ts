@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import type { GraphData, GraphNode } from './forceGraph';
+import { mergeExpansions, type NodeExpansion } from './graphExpansion';
+
+function node(id: string): GraphNode {
+  return { id, label: id, x: 0, y: 0, vx: 0, vy: 0, radius: 12, color: '#3b82f6' };
+}
+
+const data: GraphData = {
+  nodes: [node('root'), node('a')],
+  links: [{ source: 'root', target: 'a', type: 'one-way' }],
+};
+
+const expansion = (follows: string[]): NodeExpansion => ({ follows, profiles: new Map() });
+
+describe('mergeExpansions', () => {
+  it('returns the data untouched without expansions', () => {
+    expect(mergeExpansions(data, new Map())).toBe(data);
+  });
+
+  it('marks expanded nodes and adds their follows', () => {
+    const merged = mergeExpansions(data, new Map([['a', expansion(['b', 'a'])]]));
+
+    expect(merged.nodes.map(n => n.id)).toEqual(['root', 'a', 'b']);
+    expect(merged.nodes.find(n => n.id === 'a')?.expanded).toBe(true);
+    expect(merged.links).toContainEqual({ source: 'a', target: 'b', type: 'one-way' });
+    expect(merged.links).not.toContainEqual(expect.objectContaining({ source: 'a', target: 'a' }));
+  });
+
+  it('turns follows back into mutual links', () => {
+    const merged = mergeExpansions(data, new Map([['a', expansion(['root'])]]));
+
+    expect(merged.links).toEqual([
+      { source: 'root', target: 'a', type: 'mutual' },
+      { source: 'a', target: 'root', type: 'mutual' },
+    ]);
+  });
+
+  it('ignores expansions of nodes no longer in the graph', () => {
+    const merged = mergeExpansions(data, new Map([['gone', expansion(['b'])]]));
+
+    expect(merged.nodes).toHaveLength(2);
+    expect(merged.links).toEqual(data.links);
+  });
+});
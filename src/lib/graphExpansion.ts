@@ -0,0 +1,63 @@
+// Growing a graph in place by merging the follows of clicked nodes
+
+import type { GraphData, GraphLink, GraphNode } from '@/lib/forceGraph';
+import { profileLabel, type NostrProfile } from '@/lib/graphCrawl';
+
+/** The follows fetched for one expanded node */
+export interface NodeExpansion {
+  follows: string[];
+  profiles: Map<string, NostrProfile>;
+}
+
+/**
+ * Merge expansions into `data`. Expanded nodes are marked, their follows are
+ * added as nodes when missing and linked from the expanded node, with
+ * reciprocal follows typed as mutual. Nodes and links that only exist because
+ * of an expansion disappear once it is removed, so collapsing is just merging
+ * without it. Other properties of `data` are kept.
+ */
+export function mergeExpansions<T extends GraphData>(data: T, expansions: Map<string, NodeExpansion>): T {
+  if (expansions.size === 0) return data;
+
+  const nodes = new Map<string, GraphNode>(data.nodes.map(node => [
+    node.id,
+    expansions.has(node.id) ? { ...node, expanded: true } : node,
+  ]));
+
+  const linkKeys = new Set(data.links.filter(link => link.type !== 'muted').map(link => `${link.source}:${link.target}`));
+  const added: GraphLink[] = [];
+
+  for (const [source, expansion] of expansions) {
+    if (!nodes.has(source)) continue;
+
+    for (const target of expansion.follows) {
+      if (target === source || linkKeys.has(`${source}:${target}`)) continue;
+
+      if (!nodes.has(target)) {
+        const profile = expansion.profiles.get(target);
+        nodes.set(target, {
+          id: target,
+          label: profileLabel(profile, target),
+          avatar: profile?.picture,
+          x: 0,
+          y: 0,
+          vx: 0,
+          vy: 0,
+          radius: 10,
+          color: '#94a3b8', // slate-400, not part of the crawl
+        });
+      }
+
+      linkKeys.add(`${source}:${target}`);
+      added.push({ source, target, type: 'one-way' });
+    }
+  }
+
+  // Reciprocal follows are mutual, including ones between added and crawled links
+  const links = [...data.links, ...added].map(link => {
+    if (link.type !== 'one-way' || !linkKeys.has(`${link.target}:${link.source}`)) return link;
+    return { ...link, type: 'mutual' as const };
+  });
+
+  return { ...data, nodes: [...nodes.values()], links };
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { GraphData, GraphNode } from './forceGraph';
+import {
+  graphEdgesToCsv,
+  graphNodesToCsv,
+  graphToGexf,
+  graphToGraphML,
+  graphToJson,
+  type ExportableGraph,
+} from './graphExport';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+
+function node(id: string, label: string, extra: Partial<GraphNode> = {}): GraphNode {
+  return { id, label, x: 0, y: 0, vx: 0, vy: 0, radius: 12, color: '#3b82f6', ...extra };
+}
+
+const data: GraphData = {
+  nodes: [node(ALICE, 'Alice & "Co" <3>', { isRoot: true, cluster: 0 }), node(BOB, 'Bob, Jr.')],
+  links: [{ source: ALICE, target: BOB, type: 'mutual' }, { source: BOB, target: ALICE, type: 'mutual' }],
+};
+
+const graph: ExportableGraph = {
+  data,
+  trustScores: new Map([[ALICE, 1], [BOB, 0.5]]),
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+describe('graphToGraphML', () => {
+  it('writes well-formed GraphML with node attributes and edge types', () => {
+    const doc = parseXml(graphToGraphML(graph));
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.getElementsByTagName('node')).toHaveLength(2);
+    expect(doc.getElementsByTagName('edge')).toHaveLength(2);
+
+    const label = doc.querySelector(`node[id="${ALICE}"] data[key="label"]`);
+    expect(label?.textContent).toBe('Alice & "Co" <3>');
+    expect(doc.querySelector(`node[id="${BOB}"] data[key="trust"]`)?.textContent).toBe('0.5');
+    expect(doc.querySelector('edge data[key="type"]')?.textContent).toBe('mutual');
+  });
+});
+
+describe('graphToGexf', () => {
+  it('writes well-formed GEXF with viz colors', () => {
+    const doc = parseXml(graphToGexf(graph));
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.getElementsByTagName('node')[0].getAttribute('label')).toBe('Alice & "Co" <3>');
+
+    const color = doc.getElementsByTagName('viz:color')[0];
+    expect([color.getAttribute('r'), color.getAttribute('g'), color.getAttribute('b')]).toEqual(['59', '130', '246']);
+  });
+
+  it('writes link weights as edge weights', () => {
+    const weighted = { data: { ...data, links: [{ source: ALICE, target: BOB, weight: 2 }, { source: BOB, target: ALICE }] } };
+    const edges = parseXml(graphToGexf(weighted)).getElementsByTagName('edge');
+
+    expect(edges[0].getAttribute('weight')).toBe('2');
+    expect(edges[1].hasAttribute('weight')).toBe(false);
+  });
+});
+
+describe('graphToJson', () => {
+  it('includes npubs and optional attributes only when present', () => {
+    const json = JSON.parse(graphToJson(graph));
+
+    expect(json.version).toBe(1);
+    expect(json.nodes[0]).toMatchObject({ id: ALICE, isRoot: true, cluster: 0, trust: 1 });
+    expect(json.nodes[0].npub).toMatch(/^npub1/);
+    expect(json.nodes[1]).not.toHaveProperty('cluster');
+    expect(json.links).toEqual(data.links);
+  });
+
+  it('leaves out the npub of ids that are not pubkeys', () => {
+    // e.g. a graph imported from another tool
+    const imported = { data: { nodes: [node('n1', 'One'), node(ALICE, 'Alice')], links: [] } };
+
+    const json = JSON.parse(graphToJson(imported));
+    expect(json.nodes[0]).not.toHaveProperty('npub');
+    expect(json.nodes[1].npub).toMatch(/^npub1/);
+    expect(graphNodesToCsv(imported).split('\n')[1].startsWith('n1,One,,')).toBe(true);
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes fields and lists edges', () => {
+    const nodes = graphNodesToCsv(graph).split('\n');
+    expect(nodes[0].startsWith('id,label,npub,')).toBe(true);
+    expect(nodes[2]).toContain('"Bob, Jr."');
+
+    expect(graphEdgesToCsv(graph).split('\n')).toEqual([
+      'source,target,type',
+      `${ALICE},${BOB},mutual`,
+      `${BOB},${ALICE},mutual`,
+    ]);
+  });
+});
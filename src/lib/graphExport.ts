@@ -0,0 +1,216 @@
+// Serializers for taking graph data to Gephi, NetworkX and spreadsheets
+
+import { nip19 } from 'nostr-tools';
+import type { GraphData, GraphNode } from '@/lib/forceGraph';
+import type { NostrProfile } from '@/lib/graphCrawl';
+import { NODE_METRIC_LABELS, type NodeMetric, type NodeMetrics } from '@/lib/graphMetrics';
+import { csvField } from '@/lib/downloadFile';
+import { isHexPubkey } from '@/lib/parsePubkey';
+
+export interface ExportableGraph {
+  data: GraphData;
+  profiles?: Map<string, NostrProfile>;
+  trustScores?: Map<string, number>;
+  metrics?: Map<string, NodeMetrics>;
+}
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'json' | 'csv-nodes' | 'csv-edges';
+
+/** Version of the JSON dump, bumped on incompatible changes */
+export const GRAPH_JSON_VERSION = 1;
+
+type AttributeType = 'string' | 'boolean' | 'int' | 'double';
+
+interface NodeAttribute {
+  id: string;
+  type: AttributeType;
+  value: (node: GraphNode, graph: ExportableGraph) => string | number | boolean | undefined;
+}
+
+const METRIC_TYPES: Record<NodeMetric, AttributeType> = {
+  inDegree: 'int',
+  outDegree: 'int',
+  betweenness: 'double',
+  closeness: 'double',
+  clustering: 'double',
+  coreNumber: 'int',
+};
+
+// Node columns shared by every format; the label is written separately where the format has one
+const NODE_ATTRIBUTES: NodeAttribute[] = [
+  { id: 'npub', type: 'string', value: node => (isHexPubkey(node.id) ? nip19.npubEncode(node.id) : undefined) },
+  { id: 'name', type: 'string', value: (node, graph) => graph.profiles?.get(node.id)?.name },
+  { id: 'avatar', type: 'string', value: node => node.avatar },
+  { id: 'color', type: 'string', value: node => node.color },
+  { id: 'radius', type: 'double', value: node => node.radius },
+  { id: 'isRoot', type: 'boolean', value: node => !!node.isRoot },
+  { id: 'cluster', type: 'int', value: node => node.cluster },
+  { id: 'trust', type: 'double', value: (node, graph) => graph.trustScores?.get(node.id) },
+  ...(Object.keys(NODE_METRIC_LABELS) as NodeMetric[]).map(metric => ({
+    id: metric,
+    type: METRIC_TYPES[metric],
+    value: (node: GraphNode, graph: ExportableGraph) => graph.metrics?.get(node.id)?.[metric],
+  })),
+];
+
+/** Escape text for XML attribute values and element content */
+function escapeXml(value: string | number | boolean): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Parse a `#rrggbb` color into its channels, or null for anything else */
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+}
+
+/** Plain JSON dump that the importer can read back */
+export function graphToJson(graph: ExportableGraph): string {
+  return JSON.stringify({
+    version: GRAPH_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes: graph.data.nodes.map(node => {
+      const entry: Record<string, unknown> = { id: node.id, label: node.label };
+      for (const attribute of NODE_ATTRIBUTES) {
+        const value = attribute.value(node, graph);
+        if (value !== undefined) entry[attribute.id] = value;
+      }
+      return entry;
+    }),
+    links: graph.data.links.map(({ source, target, type, weight }) => ({
+      source,
+      target,
+      type,
+      ...(weight !== undefined && { weight }),
+    })),
+  }, null, 2);
+}
+
+/** GraphML with typed node attributes and an edge `type` and `weight` */
+export function graphToGraphML(graph: ExportableGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    ...NODE_ATTRIBUTES.map(a => `  <key id="${a.id}" for="node" attr.name="${a.id}" attr.type="${a.type}"/>`),
+    '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <graph id="G" edgedefault="directed">',
+  ];
+
+  for (const node of graph.data.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    for (const attribute of NODE_ATTRIBUTES) {
+      const value = attribute.value(node, graph);
+      if (value !== undefined) {
+        lines.push(`      <data key="${attribute.id}">${escapeXml(value)}</data>`);
+      }
+    }
+    lines.push('    </node>');
+  }
+
+  graph.data.links.forEach((link, index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}">`);
+    lines.push(`      <data key="type">${escapeXml(link.type ?? 'one-way')}</data>`);
+    if (link.weight !== undefined) {
+      lines.push(`      <data key="weight">${link.weight}</data>`);
+    }
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+/** GEXF 1.3 with node attributes and viz color and size */
+export function graphToGexf(graph: ExportableGraph): string {
+  const gexfType = (type: AttributeType) => (type === 'int' ? 'integer' : type);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>Nostr Social Graph</creator>',
+    '  </meta>',
+    '  <graph defaultedgetype="directed">',
+    '    <attributes class="node">',
+    ...NODE_ATTRIBUTES.map(a => `      <attribute id="${a.id}" title="${a.id}" type="${gexfType(a.type)}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+
+  for (const node of graph.data.nodes) {
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`);
+    lines.push('        <attvalues>');
+    for (const attribute of NODE_ATTRIBUTES) {
+      const value = attribute.value(node, graph);
+      if (value !== undefined) {
+        lines.push(`          <attvalue for="${attribute.id}" value="${escapeXml(value)}"/>`);
+      }
+    }
+    lines.push('        </attvalues>');
+
+    const rgb = parseHexColor(node.color);
+    if (rgb) {
+      lines.push(`        <viz:color r="${rgb[0]}" g="${rgb[1]}" b="${rgb[2]}"/>`);
+    }
+    lines.push(`        <viz:size value="${node.radius}"/>`);
+    lines.push('      </node>');
+  }
+
+  lines.push('    </nodes>', '    <edges>');
+  graph.data.links.forEach((link, index) => {
+    // GEXF has a native edge weight, which Gephi uses for layouts and metrics
+    const weight = link.weight !== undefined ? ` weight="${link.weight}"` : '';
+    lines.push(`      <edge id="${index}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}"${weight}>`);
+    lines.push(`        <attvalues><attvalue for="type" value="${escapeXml(link.type ?? 'one-way')}"/></attvalues>`);
+    lines.push('      </edge>');
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+
+  return lines.join('\n');
+}
+
+/** CSV node table with an `id` and `label` column followed by every attribute */
+export function graphNodesToCsv(graph: ExportableGraph): string {
+  const rows = [['id', 'label', ...NODE_ATTRIBUTES.map(a => a.id)].join(',')];
+  for (const node of graph.data.nodes) {
+    rows.push([
+      node.id,
+      node.label,
+      ...NODE_ATTRIBUTES.map(a => a.value(node, graph) ?? ''),
+    ].map(value => csvField(typeof value === 'boolean' ? String(value) : value)).join(','));
+  }
+  return rows.join('\n');
+}
+
+/** CSV edge list in the `source,target,type` layout Gephi and pandas read directly */
+export function graphEdgesToCsv(graph: ExportableGraph): string {
+  const rows = ['source,target,type'];
+  for (const link of graph.data.links) {
+    rows.push([link.source, link.target, link.type ?? 'one-way'].map(csvField).join(','));
+  }
+  return rows.join('\n');
+}
+
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (graph: ExportableGraph) => string;
+}> = {
+  graphml: { label: 'GraphML', extension: 'graphml', mimeType: 'application/graphml+xml', serialize: graphToGraphML },
+  gexf: { label: 'GEXF (Gephi)', extension: 'gexf', mimeType: 'application/gexf+xml', serialize: graphToGexf },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', serialize: graphToJson },
+  'csv-nodes': { label: 'CSV nodes', extension: 'nodes.csv', mimeType: 'text/csv', serialize: graphNodesToCsv },
+  'csv-edges': { label: 'CSV edges', extension: 'edges.csv', mimeType: 'text/csv', serialize: graphEdgesToCsv },
+};
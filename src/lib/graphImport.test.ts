@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { nip19 } from 'nostr-tools';
+import type { GraphData, GraphNode } from './forceGraph';
+import { graphEdgesToCsv, graphNodesToCsv, graphToGraphML, graphToJson } from './graphExport';
+import { parseCsv, parseGraphFiles } from './graphImport';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+
+function node(id: string, label: string, extra: Partial<GraphNode> = {}): GraphNode {
+  return { id, label, x: 0, y: 0, vx: 0, vy: 0, radius: 12, color: '#3b82f6', ...extra };
+}
+
+const data: GraphData = {
+  nodes: [
+    node(ALICE, 'Alice, "A"', { isRoot: true, radius: 20, color: '#8b5cf6', cluster: 1 }),
+    node(BOB, 'Bob', { avatar: 'https://example.com/bob.png' }),
+  ],
+  links: [{ source: ALICE, target: BOB, type: 'muted' }],
+};
+const graph = { data, trustScores: new Map([[BOB, 0.25]]) };
+
+describe('parseGraphFiles', () => {
+  it('round-trips the JSON export', () => {
+    const imported = parseGraphFiles([{ name: 'graph.json', content: graphToJson(graph) }]);
+
+    expect(imported.nodes[0]).toMatchObject({ id: ALICE, label: 'Alice, "A"', isRoot: true, radius: 20, cluster: 1 });
+    expect(imported.links).toEqual(data.links);
+    expect(imported.trustScores.get(BOB)).toBe(0.25);
+    expect(imported.profiles.get(BOB)?.picture).toBe('https://example.com/bob.png');
+  });
+
+  it('round-trips the GraphML export', () => {
+    const imported = parseGraphFiles([{ name: 'graph.graphml', content: graphToGraphML(graph) }]);
+
+    expect(imported.nodes.map(n => n.id)).toEqual([ALICE, BOB]);
+    expect(imported.nodes[0]).toMatchObject({ isRoot: true, color: '#8b5cf6', cluster: 1 });
+    expect(imported.links).toEqual(data.links);
+  });
+
+  it('keeps link weights through JSON and GraphML', () => {
+    // e.g. an interaction graph
+    const weighted = { data: { ...data, links: [{ source: ALICE, target: BOB, type: 'one-way' as const, weight: 3.5 }] } };
+
+    for (const content of [graphToJson(weighted), graphToGraphML(weighted)]) {
+      const name = content.startsWith('{') ? 'graph.json' : 'graph.graphml';
+      expect(parseGraphFiles([{ name, content }]).links).toEqual(weighted.data.links);
+    }
+  });
+
+  it('combines CSV node and edge files', () => {
+    const imported = parseGraphFiles([
+      { name: 'graph.nodes.csv', content: graphNodesToCsv(graph) },
+      { name: 'graph.edges.csv', content: graphEdgesToCsv(graph) },
+    ]);
+
+    expect(imported.nodes[0].label).toBe('Alice, "A"');
+    expect(imported.nodes[1].avatar).toBe('https://example.com/bob.png');
+    expect(imported.links).toEqual(data.links);
+  });
+
+  it('creates nodes from an edge list alone and accepts npubs', () => {
+    const imported = parseGraphFiles([
+      { name: 'edges.csv', content: `source,target\n${nip19.npubEncode(ALICE)},${BOB}\n` },
+    ]);
+
+    expect(imported.nodes.map(n => n.id)).toEqual([ALICE, BOB]);
+    expect(imported.links).toEqual([{ source: ALICE, target: BOB, type: 'one-way' }]);
+  });
+
+  it('rejects unreadable files', () => {
+    expect(() => parseGraphFiles([{ name: 'graph.json', content: '{' }])).toThrow('Invalid JSON file');
+    expect(() => parseGraphFiles([{ name: 'graph.txt', content: '' }])).toThrow('Unsupported file type');
+    expect(() => parseGraphFiles([{ name: 'graph.json', content: '{"nodes":[]}' }])).toThrow('any nodes');
+    for (const content of ['null', '42', '"graph"']) {
+      expect(() => parseGraphFiles([{ name: 'graph.json', content }])).toThrow('JSON file has no nodes array');
+    }
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('a,b\r\n"x, ""y""","line\nbreak"\n')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'line\nbreak'],
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+// Parsers for loading saved graphs back into GraphData without touching relays
+
+import { nip19 } from 'nostr-tools';
+import type { GraphData, GraphLink, GraphLinkType, GraphNode } from '@/lib/forceGraph';
+import type { NostrProfile } from '@/lib/graphCrawl';
+
+export interface ImportedGraph extends GraphData {
+  profiles: Map<string, NostrProfile>;
+  trustScores: Map<string, number>;
+}
+
+export interface GraphFile {
+  name: string;
+  content: string;
+}
+
+/** Attributes read for a node, all optional */
+type NodeRecord = Record<string, string | number | boolean | undefined>;
+
+const LINK_TYPES = new Set<GraphLinkType>(['mutual', 'one-way', 'muted']);
+
+/** Accept hex pubkeys as well as npubs, which other tools may have written */
+function normalizeId(id: string): string {
+  const value = id.trim();
+  if (value.startsWith('npub1')) {
+    try {
+      const decoded = nip19.decode(value);
+      if (decoded.type === 'npub') return decoded.data;
+    } catch {
+      // Not a valid npub, keep it as an opaque id
+    }
+  }
+  return value;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toLinkType(value: unknown): GraphLinkType {
+  return LINK_TYPES.has(value as GraphLinkType) ? (value as GraphLinkType) : 'one-way';
+}
+
+/** A link from its endpoints and attributes, keeping the weight of weighted graphs */
+function toLink(source: unknown, target: unknown, record: NodeRecord): GraphLink {
+  const weight = toNumber(record.weight);
+  return {
+    source: normalizeId(String(source)),
+    target: normalizeId(String(target)),
+    type: toLinkType(record.type),
+    ...(weight !== undefined && { weight }),
+  };
+}
+
+/** Build graph data from node records and links, adding nodes that only appear in links */
+function buildImportedGraph(records: Map<string, NodeRecord>, links: GraphLink[]): ImportedGraph {
+  for (const link of links) {
+    if (!records.has(link.source)) records.set(link.source, {});
+    if (!records.has(link.target)) records.set(link.target, {});
+  }
+
+  const profiles = new Map<string, NostrProfile>();
+  const trustScores = new Map<string, number>();
+
+  const nodes: GraphNode[] = [...records.entries()].map(([id, record]) => {
+    const label = record.label ? String(record.label) : id.slice(0, 8);
+    const avatar = record.avatar ? String(record.avatar) : undefined;
+    const isRoot = record.isRoot === true || record.isRoot === 'true';
+    const trust = toNumber(record.trust);
+
+    profiles.set(id, {
+      pubkey: id,
+      name: record.name ? String(record.name) : undefined,
+      display_name: record.label ? label : undefined,
+      picture: avatar,
+    });
+    if (trust !== undefined) trustScores.set(id, trust);
+
+    return {
+      id,
+      label,
+      avatar,
+      x: 0,
+      y: 0,
+      vx: 0,
+      vy: 0,
+      radius: toNumber(record.radius) ?? (isRoot ? 20 : 12),
+      color: record.color ? String(record.color) : isRoot ? '#8b5cf6' : '#3b82f6',
+      isRoot,
+      cluster: toNumber(record.cluster),
+    };
+  });
+
+  if (nodes.length === 0) {
+    throw new Error('The file does not contain any nodes');
+  }
+
+  return { nodes, links, profiles, trustScores };
+}
+
+/** Read the JSON dump written by the exporter */
+function parseJsonGraph(content: string): ImportedGraph {
+  let json: { nodes?: unknown; links?: unknown; edges?: unknown };
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid JSON file');
+  }
+
+  // `null`, a number or a string parse fine but aren't graphs
+  if (typeof json !== 'object' || json === null || !Array.isArray(json.nodes)) {
+    throw new Error('JSON file has no nodes array');
+  }
+
+  const records = new Map<string, NodeRecord>();
+  for (const entry of json.nodes as NodeRecord[]) {
+    if (entry && typeof entry.id === 'string') {
+      records.set(normalizeId(entry.id), entry);
+    }
+  }
+
+  const rawLinks = Array.isArray(json.links) ? json.links : Array.isArray(json.edges) ? json.edges : [];
+  const links = (rawLinks as NodeRecord[])
+    .filter(link => link && typeof link.source === 'string' && typeof link.target === 'string')
+    .map(link => toLink(link.source, link.target, link));
+
+  return buildImportedGraph(records, links);
+}
+
+/** Read GraphML, using each key's `attr.name` as the attribute name */
+function parseGraphML(content: string): ImportedGraph {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GraphML file');
+  }
+
+  const keyNames = new Map<string, string>();
+  for (const key of Array.from(doc.getElementsByTagName('key'))) {
+    keyNames.set(key.getAttribute('id') ?? '', key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '');
+  }
+
+  const readData = (element: Element): NodeRecord => {
+    const record: NodeRecord = {};
+    for (const data of Array.from(element.getElementsByTagName('data'))) {
+      const key = data.getAttribute('key') ?? '';
+      record[keyNames.get(key) ?? key] = data.textContent ?? '';
+    }
+    return record;
+  };
+
+  const records = new Map<string, NodeRecord>();
+  for (const node of Array.from(doc.getElementsByTagName('node'))) {
+    const id = node.getAttribute('id');
+    if (id) records.set(normalizeId(id), readData(node));
+  }
+
+  const links: GraphLink[] = [];
+  for (const edge of Array.from(doc.getElementsByTagName('edge'))) {
+    const source = edge.getAttribute('source');
+    const target = edge.getAttribute('target');
+    if (source && target) {
+      links.push(toLink(source, target, readData(edge)));
+    }
+  }
+
+  return buildImportedGraph(records, links);
+}
+
+/** Split CSV text into rows of fields, honouring quoted fields */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value !== ''));
+}
+
+/** CSV rows as records keyed by the header row */
+function csvRecords(content: string): NodeRecord[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i]])));
+}
+
+/**
+ * Read CSV files: an edge list with `source` and `target` columns, optionally
+ * together with a node table that has an `id` column.
+ */
+function parseCsvGraph(files: GraphFile[]): ImportedGraph {
+  const records = new Map<string, NodeRecord>();
+  const links: GraphLink[] = [];
+
+  for (const file of files) {
+    const rows = csvRecords(file.content);
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+
+    if (columns.includes('source') && columns.includes('target')) {
+      for (const row of rows) {
+        if (row.source && row.target) {
+          links.push(toLink(row.source, row.target, row));
+        }
+      }
+    } else if (columns.includes('id')) {
+      for (const row of rows) {
+        if (row.id) records.set(normalizeId(String(row.id)), row);
+      }
+    } else {
+      throw new Error(`${file.name} needs either source and target columns or an id column`);
+    }
+  }
+
+  return buildImportedGraph(records, links);
+}
+
+/**
+ * Parse one JSON or GraphML file, or one or more CSV files, into graph data.
+ * Throws an Error with a user-facing message when the files can't be read.
+ */
+export function parseGraphFiles(files: GraphFile[]): ImportedGraph {
+  if (files.length === 0) {
+    throw new Error('Please choose a graph file');
+  }
+
+  const extension = (name: string) => name.toLowerCase().split('.').pop();
+
+  if (files.every(file => extension(file.name) === 'csv')) {
+    return parseCsvGraph(files);
+  }
+
+  if (files.length > 1) {
+    throw new Error('Only CSV node and edge files can be imported together');
+  }
+
+  switch (extension(files[0].name)) {
+    case 'json':
+      return parseJsonGraph(files[0].content);
+    case 'graphml':
+    case 'xml':
+      return parseGraphML(files[0].content);
+    default:
+      throw new Error('Unsupported file type. Use JSON, GraphML or CSV');
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { GraphData, GraphNode } from './forceGraph';
+import { ForceSimulation } from './forceSimulation';
+import {
+  AnimatedLayout,
+  circularLayout,
+  hierarchicalLayout,
+  hopDistances,
+  radialLayout,
+  seedPositions,
+} from './graphLayouts';
+
+function node(id: string, extra: Partial<GraphNode> = {}): GraphNode {
+  return { id, label: id, x: 0, y: 0, vx: 0, vy: 0, radius: 8, color: '#3b82f6', ...extra };
+}
+
+// root → a → c, root → b, d is disconnected, e is only muted by root
+const graph: GraphData = {
+  nodes: [node('root', { isRoot: true }), node('a'), node('b'), node('c'), node('d'), node('e')],
+  links: [
+    { source: 'root', target: 'a' },
+    { source: 'b', target: 'root' },
+    { source: 'a', target: 'c' },
+    { source: 'root', target: 'e', type: 'muted' },
+  ],
+};
+
+describe('hopDistances', () => {
+  it('counts hops from the root in either direction, skipping mutes', () => {
+    const distances = hopDistances(graph);
+
+    expect(Object.fromEntries(distances)).toEqual({ root: 0, a: 1, b: 1, c: 2, d: 3, e: 3 });
+  });
+});
+
+describe('layouts', () => {
+  it('puts each hop on a wider ring around the root', () => {
+    const positions = radialLayout(graph, 800, 600);
+    const radius = (id: string) => Math.hypot(positions.get(id)!.x - 400, positions.get(id)!.y - 300);
+
+    expect(radius('root')).toBe(0);
+    expect(radius('a')).toBeCloseTo(radius('b'));
+    expect(radius('c')).toBeGreaterThan(radius('a'));
+    expect(radius('d')).toBeGreaterThan(radius('c'));
+  });
+
+  it('puts each hop on a lower layer', () => {
+    const positions = hierarchicalLayout(graph, 800, 600);
+    const y = (id: string) => positions.get(id)!.y;
+
+    expect(y('a')).toBe(y('b'));
+    expect(y('root')).toBeLessThan(y('a'));
+    expect(y('a')).toBeLessThan(y('c'));
+    expect(y('c')).toBeLessThan(y('d'));
+  });
+
+  it('keeps communities together around the circle', () => {
+    const clustered: GraphData = {
+      nodes: ['x1', 'y1', 'x2', 'y2', 'x3'].map(id => node(id, { cluster: id.startsWith('x') ? 0 : 1 })),
+      links: [],
+    };
+    const positions = circularLayout(clustered, 800, 600);
+    const angle = (id: string) => {
+      const { x, y } = positions.get(id)!;
+      return (Math.atan2(y - 300, x - 400) + Math.PI * 2.5) % (Math.PI * 2);
+    };
+
+    const order = ['x1', 'x2', 'x3', 'y1', 'y2'].sort((a, b) => angle(a) - angle(b));
+    expect(order.slice(0, 3).every(id => id.startsWith('x'))).toBe(true);
+  });
+});
+
+describe('AnimatedLayout', () => {
+  it('moves nodes to their targets, leaving pinned ones in place', async () => {
+    const nodes = graph.nodes.map((n, i) => ({ ...n, x: 10 + i, y: 20 + i }));
+    nodes[1].pinned = true;
+    const layout = new AnimatedLayout({ ...graph, nodes }, 800, 600, radialLayout);
+
+    await new Promise(resolve => setTimeout(resolve, 700));
+
+    const root = layout.getNode('root')!;
+    expect([root.x, root.y]).toEqual([400, 300]);
+    expect([layout.getNode('a')!.x, layout.getNode('a')!.y]).toEqual([11, 21]);
+    layout.dispose();
+  });
+});
+
+describe('seedPositions', () => {
+  it('keeps pins, and their positions, through a data update', async () => {
+    const nodes = graph.nodes.map((n, i) => ({ ...n, x: 100 + i * 50, y: 100 + i * 30 }));
+    const before = new ForceSimulation({ ...graph, nodes }, 800, 600);
+    before.moveNode('a', 700, 50);
+    before.setPinned('a', true);
+    const previous = before.getNodes();
+    before.dispose();
+
+    // e.g. a recolor: same nodes, new objects
+    const recolored = { ...graph, nodes: graph.nodes.map(n => ({ ...n, color: '#ef4444' })) };
+    const after = new ForceSimulation(seedPositions(recolored, previous), 800, 600);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const pinned = after.getNode('a')!;
+    expect(pinned.pinned).toBe(true);
+    expect([pinned.x, pinned.y]).toEqual([700, 50]);
+    after.dispose();
+  });
+});
@@ -0,0 +1,351 @@
+// Structural layouts that show the crawl's shape, as alternatives to the force layout
+
+import { findNodeAt, type GraphData, type GraphLink, type GraphNode } from '@/lib/forceGraph';
+import type { Viewport } from '@/lib/viewport';
+
+export type LayoutKind = 'force' | 'radial' | 'hierarchical' | 'circular';
+
+export const LAYOUT_LABELS: Record<LayoutKind, string> = {
+  force: 'Force-directed',
+  radial: 'Radial by distance',
+  hierarchical: 'Hierarchical',
+  circular: 'Circular by community',
+};
+
+/** Positions a layout assigns, by node id */
+export type LayoutPositions = Map<string, { x: number; y: number }>;
+
+/** Places every node at once, centered on a `width` × `height` area */
+export type LayoutEngine = (data: GraphData, width: number, height: number) => LayoutPositions;
+
+/** A running layout that the graph view draws, hit-tests and drags nodes in */
+export interface LayoutHandle {
+  getNodes(): GraphNode[];
+  getLinks(): GraphLink[];
+  getNode(id: string): GraphNode | undefined;
+  findNodeAt(x: number, y: number, viewport?: Viewport): GraphNode | undefined;
+  moveNode(id: string, x: number, y: number): void;
+  setPinned(id: string, pinned: boolean): void;
+  dispose(): void;
+}
+
+// Space left between neighbouring nodes on a ring, row or circle
+const NODE_GAP = 12;
+// Distance between consecutive rings or layers
+const LEVEL_SPACING = 140;
+// Hierarchical layers wrap into rows of about 2√n nodes, so wide layers stay readable
+const MIN_ROW_LENGTH = 20;
+
+/** Undirected neighbours of each node; mutes aren't part of the crawl's structure */
+function neighbours(data: GraphData): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>(data.nodes.map(node => [node.id, []]));
+  for (const link of data.links) {
+    if (link.type === 'muted') continue;
+    const source = adjacency.get(link.source);
+    const target = adjacency.get(link.target);
+    if (source && target && link.source !== link.target) {
+      source.push(link.target);
+      target.push(link.source);
+    }
+  }
+  return adjacency;
+}
+
+/** Distance between node centers along a ring or row: the average diameter plus a gap */
+function nodeSpacing(nodes: GraphNode[]): number {
+  const meanRadius = nodes.reduce((sum, node) => sum + node.radius, 0) / Math.max(nodes.length, 1);
+  return meanRadius * 2 + NODE_GAP;
+}
+
+/**
+ * Hops from the nearest root, ignoring link direction. Without roots the
+ * best-connected node stands in. Unreachable nodes are placed one level past
+ * the farthest reachable one.
+ */
+export function hopDistances(data: GraphData): Map<string, number> {
+  const adjacency = neighbours(data);
+  const distances = new Map<string, number>();
+
+  let queue = data.nodes.filter(node => node.isRoot).map(node => node.id);
+  if (queue.length === 0 && data.nodes.length > 0) {
+    const hub = data.nodes.reduce((best, node) =>
+      adjacency.get(node.id)!.length > adjacency.get(best.id)!.length ? node : best
+    );
+    queue = [hub.id];
+  }
+  for (const id of queue) distances.set(id, 0);
+
+  let depth = 0;
+  while (queue.length > 0) {
+    depth++;
+    const next: string[] = [];
+    for (const id of queue) {
+      for (const neighbour of adjacency.get(id)!) {
+        if (!distances.has(neighbour)) {
+          distances.set(neighbour, depth);
+          next.push(neighbour);
+        }
+      }
+    }
+    queue = next;
+  }
+
+  const unreachable = Math.max(-1, ...distances.values()) + 1;
+  for (const node of data.nodes) {
+    if (!distances.has(node.id)) distances.set(node.id, unreachable);
+  }
+  return distances;
+}
+
+/**
+ * Node ids grouped by hop distance. Each level is ordered by where its
+ * neighbours sit in the level above (the barycenter heuristic), which keeps
+ * links between levels short and cuts crossings; ties go by community.
+ */
+function orderedLevels(data: GraphData): string[][] {
+  const adjacency = neighbours(data);
+  const distances = hopDistances(data);
+  const nodeById = new Map(data.nodes.map(node => [node.id, node]));
+
+  const levels: string[][] = [];
+  for (const node of data.nodes) {
+    const depth = distances.get(node.id)!;
+    (levels[depth] ??= []).push(node.id);
+  }
+
+  // Relative position, from 0 to 1, of each node already ordered
+  const position = new Map<string, number>();
+  const compact = levels.filter(level => level && level.length > 0);
+
+  for (const level of compact) {
+    const barycenter = new Map<string, number>();
+    for (const id of level) {
+      const placed = adjacency.get(id)!.filter(neighbour => position.has(neighbour));
+      barycenter.set(
+        id,
+        placed.length > 0 ? placed.reduce((sum, neighbour) => sum + position.get(neighbour)!, 0) / placed.length : 0.5
+      );
+    }
+
+    level.sort((a, b) =>
+      barycenter.get(a)! - barycenter.get(b)! ||
+      (nodeById.get(a)!.cluster ?? Number.MAX_SAFE_INTEGER) - (nodeById.get(b)!.cluster ?? Number.MAX_SAFE_INTEGER) ||
+      a.localeCompare(b)
+    );
+    level.forEach((id, index) => position.set(id, level.length > 1 ? index / (level.length - 1) : 0.5));
+  }
+
+  return compact;
+}
+
+/** Rings around the root, one per hop */
+export const radialLayout: LayoutEngine = (data, width, height) => {
+  const spacing = nodeSpacing(data.nodes);
+  const positions: LayoutPositions = new Map();
+
+  let radius = 0;
+  orderedLevels(data).forEach((level, depth) => {
+    // A lone root sits in the center; rings grow to fit their nodes
+    radius = depth === 0 && level.length === 1
+      ? 0
+      : Math.max(radius + LEVEL_SPACING, (level.length * spacing) / (2 * Math.PI));
+
+    level.forEach((id, index) => {
+      const angle = (index / level.length) * Math.PI * 2 - Math.PI / 2;
+      positions.set(id, { x: width / 2 + Math.cos(angle) * radius, y: height / 2 + Math.sin(angle) * radius });
+    });
+  });
+
+  return positions;
+};
+
+/** Layers top to bottom, one per hop */
+export const hierarchicalLayout: LayoutEngine = (data, width, height) => {
+  const spacing = nodeSpacing(data.nodes);
+  const rowLength = Math.max(MIN_ROW_LENGTH, Math.ceil(Math.sqrt(data.nodes.length) * 2));
+  const positions: LayoutPositions = new Map();
+
+  let y = 0;
+  for (const level of orderedLevels(data)) {
+    const rows = Math.ceil(level.length / rowLength);
+    level.forEach((id, index) => {
+      const row = Math.floor(index / rowLength);
+      const inRow = row === rows - 1 ? level.length - row * rowLength : rowLength;
+      positions.set(id, {
+        x: width / 2 + ((index % rowLength) - (inRow - 1) / 2) * spacing,
+        y: y + row * spacing,
+      });
+    });
+    y += (rows - 1) * spacing + LEVEL_SPACING;
+  }
+
+  // Center the layers vertically
+  const offset = height / 2 - (y - LEVEL_SPACING) / 2;
+  for (const position of positions.values()) {
+    position.y += offset;
+  }
+  return positions;
+};
+
+/** One circle, with communities as contiguous arcs and hubs first within each */
+export const circularLayout: LayoutEngine = (data, width, height) => {
+  const adjacency = neighbours(data);
+  const order = [...data.nodes].sort((a, b) =>
+    (a.cluster ?? Number.MAX_SAFE_INTEGER) - (b.cluster ?? Number.MAX_SAFE_INTEGER) ||
+    adjacency.get(b.id)!.length - adjacency.get(a.id)!.length ||
+    a.id.localeCompare(b.id)
+  );
+
+  // An empty slot between communities sets the arcs apart
+  const slots = new Map<string, number>();
+  let slot = 0;
+  order.forEach((node, index) => {
+    if (index > 0 && node.cluster !== order[index - 1].cluster) slot++;
+    slots.set(node.id, slot++);
+  });
+
+  const radius = Math.max(Math.min(width, height) / 2 - 40, (slot * nodeSpacing(data.nodes)) / (2 * Math.PI));
+  const positions: LayoutPositions = new Map();
+  for (const [id, index] of slots) {
+    const angle = (index / slot) * Math.PI * 2 - Math.PI / 2;
+    positions.set(id, { x: width / 2 + Math.cos(angle) * radius, y: height / 2 + Math.sin(angle) * radius });
+  }
+  return positions;
+};
+
+export const LAYOUT_ENGINES: Record<Exclude<LayoutKind, 'force'>, LayoutEngine> = {
+  radial: radialLayout,
+  hierarchical: hierarchicalLayout,
+  circular: circularLayout,
+};
+
+/**
+ * Carry positions over from the previous layout so that graphs growing while
+ * a crawl streams in don't jump around, and pinned nodes stay pinned where
+ * they were put. New nodes start next to a neighbour that is already placed.
+ */
+export function seedPositions(data: GraphData, previousNodes: GraphNode[]): GraphData {
+  const previous = new Map(previousNodes.map(node => [node.id, node]));
+  if (previous.size === 0) return data;
+
+  const neighbour = new Map<string, GraphNode>();
+  for (const link of data.links) {
+    const source = previous.get(link.source);
+    const target = previous.get(link.target);
+    if (source && !neighbour.has(link.target)) neighbour.set(link.target, source);
+    if (target && !neighbour.has(link.source)) neighbour.set(link.source, target);
+  }
+
+  const nodes = data.nodes.map(node => {
+    const placed = previous.get(node.id);
+    if (placed) {
+      return { ...node, x: placed.x, y: placed.y, vx: placed.vx, vy: placed.vy, pinned: placed.pinned };
+    }
+
+    const anchor = neighbour.get(node.id);
+    if (anchor) {
+      const angle = Math.random() * Math.PI * 2;
+      return { ...node, x: anchor.x + Math.cos(angle) * 40, y: anchor.y + Math.sin(angle) * 40 };
+    }
+
+    return node;
+  });
+
+  return { ...data, nodes };
+}
+
+// Length of the move from the previous positions to the new layout
+const TRANSITION_MS = 600;
+const FRAME_MS = 16;
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * A structural layout, tweened into place from wherever the nodes were
+ * before. Once there nodes stay put: dragged nodes go where they're dropped
+ * and pinned nodes don't move at all.
+ */
+export class AnimatedLayout implements LayoutHandle {
+  private nodes: GraphNode[];
+  private links: GraphLink[];
+  private nodeById: Map<string, GraphNode>;
+  private targets: LayoutPositions;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(data: GraphData, width: number, height: number, engine: LayoutEngine) {
+    this.targets = engine(data, width, height);
+    this.links = data.links;
+
+    // Nodes that were never placed start at their target
+    this.nodes = data.nodes.map(node => {
+      const target = this.targets.get(node.id)!;
+      return node.x || node.y
+        ? { ...node, vx: 0, vy: 0 }
+        : { ...node, x: target.x, y: target.y, vx: 0, vy: 0 };
+    });
+    this.nodeById = new Map(this.nodes.map(node => [node.id, node]));
+
+    const starts = new Map(this.nodes.map(node => [node.id, { x: node.x, y: node.y }]));
+    const startedAt = performance.now();
+
+    const step = () => {
+      const t = Math.min(1, (performance.now() - startedAt) / TRANSITION_MS);
+      const eased = easeInOutCubic(t);
+
+      for (const node of this.nodes) {
+        const from = starts.get(node.id)!;
+        const to = this.targets.get(node.id);
+        if (!to || node.pinned) continue;
+        node.x = from.x + (to.x - from.x) * eased;
+        node.y = from.y + (to.y - from.y) * eased;
+      }
+
+      if (t < 1) {
+        this.timer = setTimeout(step, FRAME_MS);
+      }
+    };
+    step();
+  }
+
+  public getNodes(): GraphNode[] {
+    return this.nodes;
+  }
+
+  public getLinks(): GraphLink[] {
+    return this.links;
+  }
+
+  public getNode(id: string): GraphNode | undefined {
+    return this.nodeById.get(id);
+  }
+
+  /** Where each node ends up once the transition is over */
+  public getTargets(): LayoutPositions {
+    return this.targets;
+  }
+
+  public findNodeAt(x: number, y: number, viewport?: Viewport): GraphNode | undefined {
+    return findNodeAt(this.nodes, x, y, viewport);
+  }
+
+  public moveNode(id: string, x: number, y: number): void {
+    const node = this.nodeById.get(id);
+    if (!node) return;
+
+    // A dragged node leaves the transition
+    this.targets.delete(id);
+    node.x = x;
+    node.y = y;
+  }
+
+  public setPinned(id: string, pinned: boolean): void {
+    const node = this.nodeById.get(id);
+    if (node) node.pinned = pinned;
+  }
+
+  public dispose(): void {
+    clearTimeout(this.timer);
+  }
+}
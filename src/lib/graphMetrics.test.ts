@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { GraphData, GraphLink } from './forceGraph';
+import { computeGraphMetrics } from './graphMetrics';
+
+function graph(ids: string[], links: GraphLink[]): GraphData {
+  return {
+    nodes: ids.map(id => ({ id, label: id, x: 0, y: 0, vx: 0, vy: 0, radius: 8, color: '#3b82f6' })),
+    links,
+  };
+}
+
+describe('computeGraphMetrics', () => {
+  it('computes betweenness and closeness along a directed path', () => {
+    // a → b → c
+    const { nodes } = computeGraphMetrics(graph(['a', 'b', 'c'], [
+      { source: 'a', target: 'b' },
+      { source: 'b', target: 'c' },
+    ]));
+
+    // Only a → c passes through b, out of (3 - 1)(3 - 2) = 2 ordered pairs
+    expect(nodes.get('b')!.betweenness).toBeCloseTo(0.5);
+    expect(nodes.get('a')!.betweenness).toBe(0);
+    expect(nodes.get('c')!.betweenness).toBe(0);
+
+    // a reaches both others at distances 1 and 2
+    expect(nodes.get('a')!.closeness).toBeCloseTo(2 / 3);
+    // b reaches half the graph at distance 1
+    expect(nodes.get('b')!.closeness).toBeCloseTo(0.5);
+    expect(nodes.get('c')!.closeness).toBe(0);
+  });
+
+  it('splits betweenness between equally short paths', () => {
+    // s → x → t and s → y → t
+    const { nodes } = computeGraphMetrics(graph(['s', 'x', 'y', 't'], [
+      { source: 's', target: 'x' },
+      { source: 's', target: 'y' },
+      { source: 'x', target: 't' },
+      { source: 'y', target: 't' },
+    ]));
+
+    // Half of the one s → t pair each, out of 3 · 2 = 6 ordered pairs
+    expect(nodes.get('x')!.betweenness).toBeCloseTo(0.5 / 6);
+    expect(nodes.get('y')!.betweenness).toBeCloseTo(0.5 / 6);
+  });
+
+  it('finds k-cores and clustering, ignoring mutes', () => {
+    // Triangle a, b, c with a pendant d, and a mute that would close another triangle
+    const metrics = computeGraphMetrics(graph(['a', 'b', 'c', 'd'], [
+      { source: 'a', target: 'b' },
+      { source: 'b', target: 'c' },
+      { source: 'c', target: 'a' },
+      { source: 'c', target: 'd' },
+      { source: 'd', target: 'a', type: 'muted' },
+    ]));
+
+    expect(metrics.nodes.get('a')!.coreNumber).toBe(2);
+    expect(metrics.nodes.get('c')!.coreNumber).toBe(2);
+    expect(metrics.nodes.get('d')!.coreNumber).toBe(1);
+    expect(metrics.maxCore).toBe(2);
+
+    expect(metrics.nodes.get('a')!.clustering).toBe(1);
+    expect(metrics.nodes.get('c')!.clustering).toBeCloseTo(1 / 3);
+    expect(metrics.nodes.get('d')!.clustering).toBe(0);
+    expect(metrics.density).toBeCloseTo(4 / 12);
+  });
+});
@@ -0,0 +1,204 @@
+// Network metrics over the social graph
+
+import type { GraphData } from '@/lib/forceGraph';
+
+export interface NodeMetrics {
+  inDegree: number;
+  outDegree: number;
+  /** Share of shortest paths between other nodes that pass through this node, 0–1 */
+  betweenness: number;
+  /** Wasserman–Faust closeness over outgoing paths, 0–1 */
+  closeness: number;
+  /** Share of a node's neighbour pairs that are themselves connected, 0–1 */
+  clustering: number;
+  /** Largest k such that the node belongs to the k-core */
+  coreNumber: number;
+}
+
+export type NodeMetric = keyof NodeMetrics;
+
+export interface GraphMetrics {
+  nodes: Map<string, NodeMetrics>;
+  /** Follow edges present out of all possible directed edges */
+  density: number;
+  averageDegree: number;
+  averageClustering: number;
+  maxCore: number;
+}
+
+export const NODE_METRIC_LABELS: Record<NodeMetric, string> = {
+  inDegree: 'In-degree',
+  outDegree: 'Out-degree',
+  betweenness: 'Betweenness',
+  closeness: 'Closeness',
+  clustering: 'Clustering',
+  coreNumber: 'K-core',
+};
+
+/**
+ * Brandes' algorithm for betweenness, computing closeness from the same
+ * breadth-first searches.
+ */
+function computeShortestPathMetrics(ids: string[], outEdges: Map<string, Set<string>>) {
+  const n = ids.length;
+  const betweenness = new Map<string, number>(ids.map(id => [id, 0]));
+  const closeness = new Map<string, number>();
+
+  for (const source of ids) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const pathCount = new Map<string, number>([[source, 1]]);
+    const distance = new Map<string, number>([[source, 0]]);
+    const queue = [source];
+
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+
+      for (const w of outEdges.get(v)!) {
+        if (!distance.has(w)) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          pathCount.set(w, (pathCount.get(w) ?? 0) + pathCount.get(v)!);
+          const list = predecessors.get(w);
+          if (list) {
+            list.push(v);
+          } else {
+            predecessors.set(w, [v]);
+          }
+        }
+      }
+    }
+
+    // Closeness, scaled by the share of the graph that is reachable
+    const reached = distance.size - 1;
+    let totalDistance = 0;
+    for (const d of distance.values()) totalDistance += d;
+    closeness.set(
+      source,
+      reached > 0 && n > 1 ? (reached / (n - 1)) * (reached / totalDistance) : 0
+    );
+
+    // Accumulate dependencies in order of non-increasing distance
+    const dependency = new Map<string, number>();
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors.get(w) ?? []) {
+        const share = (pathCount.get(v)! / pathCount.get(w)!) * (1 + (dependency.get(w) ?? 0));
+        dependency.set(v, (dependency.get(v) ?? 0) + share);
+      }
+      if (w !== source) {
+        betweenness.set(w, betweenness.get(w)! + (dependency.get(w) ?? 0));
+      }
+    }
+  }
+
+  // Normalize by the number of ordered pairs of other nodes
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  for (const [id, value] of betweenness) {
+    betweenness.set(id, value * scale);
+  }
+
+  return { betweenness, closeness };
+}
+
+/** Core number of every node, peeling the undirected graph by degree */
+function computeCoreNumbers(ids: string[], neighbours: Map<string, Set<string>>): Map<string, number> {
+  const degree = new Map(ids.map(id => [id, neighbours.get(id)!.size]));
+  const core = new Map<string, number>();
+  const remaining = new Set(ids);
+
+  // Buckets of nodes by current degree
+  const buckets: Set<string>[] = [];
+  for (const [id, d] of degree) {
+    (buckets[d] ??= new Set()).add(id);
+  }
+
+  let k = 0;
+  while (remaining.size > 0) {
+    let d = 0;
+    while (!buckets[d] || buckets[d].size === 0) d++;
+
+    const [id] = buckets[d];
+    buckets[d].delete(id);
+    remaining.delete(id);
+    k = Math.max(k, d);
+    core.set(id, k);
+
+    for (const other of neighbours.get(id)!) {
+      if (!remaining.has(other)) continue;
+
+      const od = degree.get(other)!;
+      buckets[od].delete(other);
+      degree.set(other, od - 1);
+      (buckets[od - 1] ??= new Set()).add(other);
+    }
+  }
+
+  return core;
+}
+
+/**
+ * Compute per-node centrality and graph-wide metrics.
+ * Only follow edges count; mutes are ignored. Degree, betweenness and
+ * closeness respect edge direction, clustering and k-cores treat the graph
+ * as undirected.
+ */
+export function computeGraphMetrics(data: GraphData): GraphMetrics {
+  const ids = data.nodes.map(node => node.id);
+  const outEdges = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+  const inEdges = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+  const neighbours = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+
+  for (const link of data.links) {
+    if (link.type === 'muted' || link.source === link.target) continue;
+    if (!outEdges.has(link.source) || !outEdges.has(link.target)) continue;
+
+    outEdges.get(link.source)!.add(link.target);
+    inEdges.get(link.target)!.add(link.source);
+    neighbours.get(link.source)!.add(link.target);
+    neighbours.get(link.target)!.add(link.source);
+  }
+
+  const { betweenness, closeness } = computeShortestPathMetrics(ids, outEdges);
+  const coreNumbers = computeCoreNumbers(ids, neighbours);
+
+  const nodes = new Map<string, NodeMetrics>();
+  let edgeCount = 0;
+  let clusteringSum = 0;
+
+  for (const id of ids) {
+    const adjacent = [...neighbours.get(id)!];
+    let connectedPairs = 0;
+    for (let i = 0; i < adjacent.length; i++) {
+      for (let j = i + 1; j < adjacent.length; j++) {
+        if (neighbours.get(adjacent[i])!.has(adjacent[j])) connectedPairs++;
+      }
+    }
+    const possiblePairs = (adjacent.length * (adjacent.length - 1)) / 2;
+    const clustering = possiblePairs > 0 ? connectedPairs / possiblePairs : 0;
+
+    edgeCount += outEdges.get(id)!.size;
+    clusteringSum += clustering;
+
+    nodes.set(id, {
+      inDegree: inEdges.get(id)!.size,
+      outDegree: outEdges.get(id)!.size,
+      betweenness: betweenness.get(id)!,
+      closeness: closeness.get(id)!,
+      clustering,
+      coreNumber: coreNumbers.get(id)!,
+    });
+  }
+
+  const n = ids.length;
+  return {
+    nodes,
+    density: n > 1 ? edgeCount / (n * (n - 1)) : 0,
+    averageDegree: n > 0 ? edgeCount / n : 0,
+    averageClustering: n > 0 ? clusteringSum / n : 0,
+    maxCore: Math.max(0, ...coreNumbers.values()),
+  };
+}
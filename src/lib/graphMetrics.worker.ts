@@ -0,0 +1,9 @@
+// Web Worker computing network metrics off the main thread
+
+import type { GraphData } from '@/lib/forceGraph';
+import { computeGraphMetrics } from '@/lib/graphMetrics';
+
+self.onmessage = (event: MessageEvent<GraphData>) => {
+  // The metrics are plain maps and numbers, which structured cloning copies as they are
+  self.postMessage(computeGraphMetrics(event.data));
+};
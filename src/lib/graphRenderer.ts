@@ -0,0 +1,109 @@
+// Rendering backends for the graph canvas and the styles they share
+
+import type { GraphLink, GraphLinkType, GraphNode } from '@/lib/forceGraph';
+import type { Viewport } from '@/lib/viewport';
+
+export const LINK_STYLES: Record<GraphLinkType, { color: string; width: number; dash: number[] }> = {
+  'one-way': { color: 'rgba(148, 163, 184, 0.3)', width: 1, dash: [] }, // slate-400
+  mutual: { color: 'rgba(34, 197, 94, 0.5)', width: 1.5, dash: [] }, // green-500
+  muted: { color: 'rgba(239, 68, 68, 0.5)', width: 1, dash: [4, 4] }, // red-500
+};
+
+export const HIGHLIGHT_COLOR = '#f59e0b'; // amber-500
+export const HOVER_COLOR = '#a855f7'; // purple-500
+export const PIN_COLOR = '#334155'; // slate-700
+
+// Weighted links are drawn up to MAX_WEIGHT_WIDTH times as wide as unweighted ones
+const MAX_WEIGHT_WIDTH = 6;
+
+/** Everything a renderer needs to draw one frame */
+export interface RenderScene {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  getNode: (id: string) => GraphNode | undefined;
+  width: number;
+  height: number;
+  /** Pan and zoom applied to everything drawn */
+  viewport: Viewport;
+  hoveredId?: string;
+  /** Ordered ids of a path whose hops should be highlighted */
+  highlightedPath?: string[];
+  /** Loaded avatar images, by URL */
+  images: Map<string, HTMLImageElement>;
+  /** Largest link weight in the graph */
+  maxWeight: number;
+}
+
+export interface GraphRenderer {
+  render(scene: RenderScene): void;
+  dispose(): void;
+}
+
+/** Drawn width of a link, scaled by its weight */
+export function linkWidth(link: GraphLink, maxWeight: number): number {
+  const style = LINK_STYLES[link.type ?? 'one-way'];
+  return link.weight && maxWeight > 0
+    ? style.width * (1 + (MAX_WEIGHT_WIDTH - 1) * (link.weight / maxWeight))
+    : style.width;
+}
+
+// Keys of the mutual links in each links array, built once per graph rather than per frame
+const mutualKeys = new WeakMap<GraphLink[], Set<string>>();
+
+/**
+ * Whether a mutual link can be skipped because its reverse is drawn instead.
+ * A mutual link without a reverse copy is still drawn.
+ */
+export function isMirroredMutual(link: GraphLink, links: GraphLink[]): boolean {
+  if (link.type !== 'mutual' || link.source <= link.target) return false;
+
+  let keys = mutualKeys.get(links);
+  if (!keys) {
+    keys = new Set(links.filter(l => l.type === 'mutual').map(l => `${l.source}:${l.target}`));
+    mutualKeys.set(links, keys);
+  }
+  return keys.has(`${link.target}:${link.source}`);
+}
+
+/** Border color and width of a node: hover and path highlights win, then pins */
+export function nodeBorder(
+  node: GraphNode,
+  isHovered: boolean,
+  isOnPath: boolean,
+  hasAvatar: boolean
+): { color: string; width: number } {
+  if (isHovered) return { color: HOVER_COLOR, width: 3 };
+  if (isOnPath) return { color: HIGHLIGHT_COLOR, width: 3 };
+  if (node.pinned) return { color: PIN_COLOR, width: 3 };
+  return { color: hasAvatar ? node.color : '#ffffff', width: 2 };
+}
+
+/** Whether a node's label is shown: on hover, for roots and along the highlighted path */
+export function showsLabel(node: GraphNode, scene: RenderScene, pathNodes: Set<string>): boolean {
+  return node.id === scene.hoveredId || !!node.isRoot || pathNodes.has(node.id);
+}
+
+/** Draw a node's label on a white background below it, at the same size whatever the zoom */
+export function drawLabel(ctx: CanvasRenderingContext2D, node: GraphNode, viewport: Viewport): void {
+  const x = node.x * viewport.k + viewport.x;
+  const y = (node.y + node.radius) * viewport.k + viewport.y;
+
+  ctx.font = node.isRoot ? 'bold 12px Inter, sans-serif' : '11px Inter, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+
+  // Background for label
+  const metrics = ctx.measureText(node.label);
+  const padding = 4;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
+  ctx.fillRect(
+    x - metrics.width / 2 - padding,
+    y + 4,
+    metrics.width + padding * 2,
+    16
+  );
+
+  // Draw label text
+  ctx.fillStyle = '#1f2937'; // gray-800
+  ctx.fillText(node.label, x, y + 6);
+}
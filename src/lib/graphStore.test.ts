@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import {
+  clearGraphCache,
+  getGraphCacheInfo,
+  readGraphEventsFromDB,
+  writeGraphEventsToDB,
+} from './graphStore';
+import { stores } from '@/test/fakeIdb';
+
+// jsdom has no IndexedDB
+vi.mock('idb', () => import('@/test/fakeIdb'));
+
+function event(kind: number, pubkey: string, createdAt: number, content = ''): NostrEvent {
+  return { id: `${kind}-${pubkey}-${createdAt}`, kind, pubkey, created_at: createdAt, content, tags: [], sig: '' };
+}
+
+beforeEach(() => {
+  stores.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('graphStore', () => {
+  it('round-trips events by kind and author', async () => {
+    const contacts = event(3, 'alice', 100);
+    const profile = event(0, 'alice', 100, '{"name":"Alice"}');
+    await writeGraphEventsToDB([contacts, profile, event(3, 'bob', 100)]);
+
+    const read = await readGraphEventsFromDB(3, ['alice', 'carol']);
+    expect([...read.keys()]).toEqual(['alice']);
+    expect(read.get('alice')).toEqual(contacts);
+    expect((await readGraphEventsFromDB(0, ['alice'])).get('alice')).toEqual(profile);
+  });
+
+  it('replaces a cached event only with a newer one', async () => {
+    await writeGraphEventsToDB([event(3, 'alice', 200)]);
+    await writeGraphEventsToDB([event(3, 'alice', 100)]);
+    expect((await readGraphEventsFromDB(3, ['alice'])).get('alice')?.created_at).toBe(200);
+
+    await writeGraphEventsToDB([event(3, 'alice', 300)]);
+    expect((await readGraphEventsFromDB(3, ['alice'])).get('alice')?.created_at).toBe(300);
+  });
+
+  it('reports counts and the last write, until cleared', async () => {
+    expect(await getGraphCacheInfo()).toEqual({ contactLists: 0, profiles: 0, lastUpdated: null });
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    await writeGraphEventsToDB([event(3, 'alice', 100), event(3, 'bob', 100), event(0, 'alice', 100)]);
+
+    expect(await getGraphCacheInfo()).toEqual({
+      contactLists: 2,
+      profiles: 1,
+      lastUpdated: Date.parse('2026-01-01T00:00:00Z') / 1000,
+    });
+
+    await clearGraphCache();
+    expect(await getGraphCacheInfo()).toEqual({ contactLists: 0, profiles: 0, lastUpdated: null });
+    expect((await readGraphEventsFromDB(3, ['alice'])).size).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { openDB, type IDBPDatabase } from 'idb';
+import type { NostrEvent } from '@nostrify/nostrify';
+
+// ============================================================================
+// IndexedDB Schema
+// ============================================================================
+
+// Use domain-based naming to avoid conflicts between apps on same domain
+const getDBName = () => {
+  const hostname = typeof window !== 'undefined' ? window.location.hostname : 'default';
+  return `nostr-graph-store-${hostname}`;
+};
+const DB_NAME = getDBName();
+const DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+const META_STORE = 'meta';
+const LAST_UPDATED_KEY = 'lastUpdated';
+
+/** The newest replaceable event (kind 0, 3, ...) we have seen for one author */
+interface StoredGraphEvent {
+  kind: number;
+  pubkey: string;
+  event: NostrEvent;
+}
+
+export interface GraphCacheInfo {
+  contactLists: number;
+  profiles: number;
+  /** Unix timestamp (seconds) of the last write, or null if the cache is empty */
+  lastUpdated: number | null;
+}
+
+const eventKey = (kind: number, pubkey: string) => `${kind}:${pubkey}`;
+
+// ============================================================================
+// Database Operations
+// ============================================================================
+
+/**
+ * Open the IndexedDB database
+ */
+async function openDatabase(): Promise<IDBPDatabase> {
+  return openDB(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+        const store = db.createObjectStore(EVENTS_STORE);
+        store.createIndex('kind', 'kind');
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    },
+  });
+}
+
+/**
+ * Read the cached events of one kind for the given authors
+ * Authors without a cached event are missing from the returned map
+ */
+export async function readGraphEventsFromDB(
+  kind: number,
+  pubkeys: string[]
+): Promise<Map<string, NostrEvent>> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const records = await Promise.all(
+      pubkeys.map(pubkey => tx.store.get(eventKey(kind, pubkey)) as Promise<StoredGraphEvent | undefined>)
+    );
+    await tx.done;
+
+    const events = new Map<string, NostrEvent>();
+    for (const record of records) {
+      if (record) {
+        events.set(record.pubkey, record.event);
+      }
+    }
+    return events;
+  } catch (error) {
+    console.error('[GraphStore] Error reading from IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Write events to IndexedDB, keeping only the newest event per kind and author
+ */
+export async function writeGraphEventsToDB(events: NostrEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+
+    await Promise.all(events.map(async (event) => {
+      const key = eventKey(event.kind, event.pubkey);
+      const existing = await store.get(key) as StoredGraphEvent | undefined;
+      if (!existing || event.created_at > existing.event.created_at) {
+        const record: StoredGraphEvent = { kind: event.kind, pubkey: event.pubkey, event };
+        await store.put(record, key);
+      }
+    }));
+
+    await tx.objectStore(META_STORE).put(Math.floor(Date.now() / 1000), LAST_UPDATED_KEY);
+    await tx.done;
+  } catch (error) {
+    console.error('[GraphStore] Error writing to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Summarize what is currently cached
+ */
+export async function getGraphCacheInfo(): Promise<GraphCacheInfo> {
+  try {
+    const db = await openDatabase();
+    const [contactLists, profiles, lastUpdated] = await Promise.all([
+      db.countFromIndex(EVENTS_STORE, 'kind', 3),
+      db.countFromIndex(EVENTS_STORE, 'kind', 0),
+      db.get(META_STORE, LAST_UPDATED_KEY) as Promise<number | undefined>,
+    ]);
+
+    return { contactLists, profiles, lastUpdated: lastUpdated ?? null };
+  } catch (error) {
+    console.error('[GraphStore] Error reading cache info from IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Clear all cached graph events
+ */
+export async function clearGraphCache(): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+    await Promise.all([
+      tx.objectStore(EVENTS_STORE).clear(),
+      tx.objectStore(META_STORE).clear(),
+    ]);
+    await tx.done;
+  } catch (error) {
+    console.error('[GraphStore] Error clearing IndexedDB:', error);
+    throw error;
+  }
+}
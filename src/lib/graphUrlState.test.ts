@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { nip19 } from 'nostr-tools';
+import { DEFAULT_GRAPH_URL_STATE, graphUrlStateToParams, parseGraphUrlState } from './graphUrlState';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+const npub = nip19.npubEncode(ALICE);
+
+describe('parseGraphUrlState', () => {
+  it('reads a user view from the query string', () => {
+    const state = parseGraphUrlState(new URLSearchParams(`root=${npub}&depth=3&limit=200&dir=both`));
+
+    expect(state).toEqual({
+      mode: 'user',
+      root: { pubkey: ALICE, relays: [] },
+      depth: 3,
+      limit: 200,
+      direction: 'both',
+    });
+  });
+
+  it('falls back to defaults for invalid values', () => {
+    const state = parseGraphUrlState(new URLSearchParams('root=nope&depth=9&limit=abc&dir=sideways'));
+
+    expect(state).toEqual({ ...DEFAULT_GRAPH_URL_STATE, depth: 3 });
+  });
+
+  it('prefers the nip19 path segment and keeps nprofile relay hints', () => {
+    const nprofile = nip19.nprofileEncode({ pubkey: BOB, relays: ['wss://relay.example'] });
+    const state = parseGraphUrlState(new URLSearchParams(`root=${npub}&mode=all`), nprofile);
+
+    expect(state.mode).toBe('user');
+    expect(state.root).toEqual({ pubkey: BOB, relays: ['wss://relay.example'] });
+  });
+
+  it('reads path finder endpoints', () => {
+    const state = parseGraphUrlState(new URLSearchParams(`from=${npub}&to=${BOB}`));
+
+    expect(state).toMatchObject({ mode: 'path', from: ALICE, to: BOB });
+  });
+});
+
+describe('graphUrlStateToParams', () => {
+  it('round-trips through the query string', () => {
+    const state = {
+      ...DEFAULT_GRAPH_URL_STATE,
+      mode: 'user' as const,
+      root: { pubkey: ALICE, relays: ['wss://relay.example'] },
+      direction: 'followers' as const,
+    };
+    const params = graphUrlStateToParams(state);
+
+    expect(params.get('root')).toMatch(/^nprofile1/);
+    expect(parseGraphUrlState(params)).toEqual(state);
+  });
+
+  it('writes only the endpoints in path mode', () => {
+    const params = graphUrlStateToParams({ ...DEFAULT_GRAPH_URL_STATE, mode: 'path', from: ALICE, to: BOB });
+
+    expect([...params.keys()]).toEqual(['mode', 'from', 'to']);
+  });
+});
@@ -0,0 +1,102 @@
+// Explorer state encoded in the query string, so views can be linked to
+
+import { nip19 } from 'nostr-tools';
+import { parseProfileInput, type ProfileInput } from '@/lib/parsePubkey';
+
+export type GraphUrlMode = 'all' | 'user' | 'path';
+export type GraphUrlDirection = 'following' | 'followers' | 'both';
+
+export interface GraphUrlState {
+  mode: GraphUrlMode;
+  root?: ProfileInput;
+  depth: number;
+  limit: number;
+  direction: GraphUrlDirection;
+  /** Path finder endpoints */
+  from?: string;
+  to?: string;
+}
+
+export const DEFAULT_GRAPH_URL_STATE: GraphUrlState = {
+  mode: 'all',
+  depth: 2,
+  limit: 100,
+  direction: 'following',
+};
+
+// Same bounds as the explorer's sliders
+const DEPTH_RANGE = [1, 3];
+const LIMIT_RANGE = [20, 5000];
+
+const DIRECTIONS = new Set<GraphUrlDirection>(['following', 'followers', 'both']);
+
+function parseBounded(value: string | null, [min, max]: number[], fallback: number): number {
+  const number = Number(value);
+  return value && Number.isInteger(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+function tryParseProfile(value: string | null | undefined): ProfileInput | undefined {
+  if (!value) return undefined;
+  try {
+    return parseProfileInput(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read explorer state from the query string and an optional `/graph/:nip19`
+ * path segment, which takes precedence over `root`. Invalid values fall back
+ * to the defaults instead of failing.
+ */
+export function parseGraphUrlState(params: URLSearchParams, nip19Segment?: string): GraphUrlState {
+  const state: GraphUrlState = {
+    ...DEFAULT_GRAPH_URL_STATE,
+    depth: parseBounded(params.get('depth'), DEPTH_RANGE, DEFAULT_GRAPH_URL_STATE.depth),
+    limit: parseBounded(params.get('limit'), LIMIT_RANGE, DEFAULT_GRAPH_URL_STATE.limit),
+  };
+
+  const direction = params.get('dir') as GraphUrlDirection | null;
+  if (direction && DIRECTIONS.has(direction)) {
+    state.direction = direction;
+  }
+
+  state.root = tryParseProfile(nip19Segment) ?? tryParseProfile(params.get('root'));
+  const from = tryParseProfile(params.get('from'))?.pubkey;
+  const to = tryParseProfile(params.get('to'))?.pubkey;
+
+  const mode = params.get('mode');
+  if (nip19Segment && state.root) {
+    state.mode = 'user';
+  } else if (mode === 'path' || (!mode && from && to)) {
+    state.mode = 'path';
+    state.from = from;
+    state.to = to;
+  } else if (state.root && mode !== 'all') {
+    state.mode = 'user';
+  }
+
+  return state;
+}
+
+/** Encode explorer state, writing pubkeys as npubs or, with relay hints, nprofiles */
+export function graphUrlStateToParams(state: GraphUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set('mode', state.mode);
+
+  if (state.mode === 'path') {
+    if (state.from) params.set('from', nip19.npubEncode(state.from));
+    if (state.to) params.set('to', nip19.npubEncode(state.to));
+    return params;
+  }
+
+  if (state.mode === 'user' && state.root) {
+    const { pubkey, relays } = state.root;
+    params.set('root', relays.length > 0 ? nip19.nprofileEncode({ pubkey, relays }) : nip19.npubEncode(pubkey));
+    params.set('dir', state.direction);
+  }
+  params.set('depth', String(state.depth));
+  params.set('limit', String(state.limit));
+
+  return params;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { collectInteractions, getInteractionTargets } from './interactionGraph';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+const CAROL = 'c'.repeat(64);
+
+let nextId = 0;
+function event(kind: number, pubkey: string, tags: string[][]): NostrEvent {
+  return { id: String(nextId++), pubkey, created_at: 0, kind, tags, content: '', sig: 'sig' };
+}
+
+describe('getInteractionTargets', () => {
+  it('tells replies from mentions', () => {
+    expect(getInteractionTargets(event(1, ALICE, [['e', 'x'], ['p', BOB], ['p', CAROL]])))
+      .toEqual({ kind: 'reply', targets: [BOB, CAROL] });
+    expect(getInteractionTargets(event(1, ALICE, [['p', BOB], ['p', BOB]])))
+      .toEqual({ kind: 'mention', targets: [BOB] });
+  });
+
+  it('targets the last p tag for reactions and reposts', () => {
+    expect(getInteractionTargets(event(7, ALICE, [['p', CAROL], ['p', BOB]])))
+      .toEqual({ kind: 'reaction', targets: [BOB] });
+    expect(getInteractionTargets(event(6, ALICE, [['p', BOB]])))
+      .toEqual({ kind: 'repost', targets: [BOB] });
+  });
+
+  it('ignores events without valid p tags', () => {
+    expect(getInteractionTargets(event(1, ALICE, [['p', 'npub']]))).toBeNull();
+  });
+});
+
+describe('collectInteractions', () => {
+  it('sums interactions per direction and skips self and duplicate events', () => {
+    const reaction = event(7, ALICE, [['p', BOB]]);
+    const edges = collectInteractions([
+      reaction,
+      reaction,
+      event(6, ALICE, [['p', BOB]]),
+      event(1, BOB, [['e', 'x'], ['p', ALICE], ['p', BOB]]),
+    ]);
+
+    expect(edges).toEqual([
+      { source: ALICE, target: BOB, weight: 2, counts: { reply: 0, mention: 0, reaction: 1, repost: 1 } },
+      { source: BOB, target: ALICE, weight: 1, counts: { reply: 1, mention: 0, reaction: 0, repost: 0 } },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+// Weighted engagement edges from replies, mentions, reactions and reposts
+
+import type { NostrEvent } from '@nostrify/nostrify';
+
+export type InteractionKind = 'reply' | 'mention' | 'reaction' | 'repost';
+
+export interface InteractionEdge {
+  source: string;
+  target: string;
+  /** Total number of interactions from source to target */
+  weight: number;
+  counts: Record<InteractionKind, number>;
+}
+
+export const INTERACTION_KINDS = [1, 6, 7];
+
+export const INTERACTION_LABELS: Record<InteractionKind, string> = {
+  reply: 'Replies',
+  mention: 'Mentions',
+  reaction: 'Reactions',
+  repost: 'Reposts',
+};
+
+/**
+ * Who an event interacts with and how. Kind 1 notes that reference an event
+ * are replies to every tagged pubkey, other notes mention them. Reactions and
+ * reposts target the author of the referenced event, the last `p` tag.
+ */
+export function getInteractionTargets(event: NostrEvent): { kind: InteractionKind; targets: string[] } | null {
+  const tagged = event.tags
+    .filter(([name, value]) => name === 'p' && /^[0-9a-f]{64}$/.test(value ?? ''))
+    .map(([, value]) => value);
+
+  if (tagged.length === 0) return null;
+
+  switch (event.kind) {
+    case 1:
+      return {
+        kind: event.tags.some(([name]) => name === 'e') ? 'reply' : 'mention',
+        targets: [...new Set(tagged)],
+      };
+    case 6:
+      return { kind: 'repost', targets: [tagged[tagged.length - 1]] };
+    case 7:
+      return { kind: 'reaction', targets: [tagged[tagged.length - 1]] };
+    default:
+      return null;
+  }
+}
+
+/** Count interactions between pubkeys, one edge per direction; self-interactions are skipped */
+export function collectInteractions(events: NostrEvent[]): InteractionEdge[] {
+  const edges = new Map<string, InteractionEdge>();
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    if (seen.has(event.id)) continue;
+    seen.add(event.id);
+
+    const interaction = getInteractionTargets(event);
+    if (!interaction) continue;
+
+    for (const target of interaction.targets) {
+      if (target === event.pubkey) continue;
+
+      const key = `${event.pubkey}:${target}`;
+      let edge = edges.get(key);
+      if (!edge) {
+        edge = {
+          source: event.pubkey,
+          target,
+          weight: 0,
+          counts: { reply: 0, mention: 0, reaction: 0, repost: 0 },
+        };
+        edges.set(key, edge);
+      }
+      edge.weight++;
+      edge.counts[interaction.kind]++;
+    }
+  }
+
+  return [...edges.values()];
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import {
+  normalizeRelayUrl,
+  parseRelayHints,
+  parseRelayList,
+  routeAuthors,
+  summarizeCoverage,
+} from './outboxRouting';
+
+function createEvent(kind: number, tags: string[][]): NostrEvent {
+  return { id: 'id', pubkey: 'author', created_at: 0, kind, tags, content: '', sig: 'sig' };
+}
+
+describe('normalizeRelayUrl', () => {
+  it('normalizes host case and trailing slashes', () => {
+    expect(normalizeRelayUrl('wss://Relay.Example.com/')).toBe('wss://relay.example.com');
+    expect(normalizeRelayUrl('https://relay.example.com')).toBe('');
+    expect(normalizeRelayUrl('not a url')).toBe('');
+  });
+});
+
+describe('parseRelayList', () => {
+  it('reads markers and treats unmarked relays as read and write', () => {
+    const event = createEvent(10002, [
+      ['r', 'wss://both.example'],
+      ['r', 'wss://write.example', 'write'],
+      ['r', 'wss://read.example', 'read'],
+      ['r', 'invalid'],
+    ]);
+
+    expect(parseRelayList(event)).toEqual([
+      { url: 'wss://both.example', read: true, write: true },
+      { url: 'wss://write.example', read: false, write: true },
+      { url: 'wss://read.example', read: true, write: false },
+    ]);
+  });
+});
+
+describe('parseRelayHints', () => {
+  it('collects p tag relay hints', () => {
+    const event = createEvent(3, [['p', 'a', 'wss://hint.example/'], ['p', 'b'], ['p', 'c', '']]);
+
+    expect(parseRelayHints(event)).toEqual(new Map([['a', 'wss://hint.example']]));
+  });
+});
+
+describe('routeAuthors', () => {
+  it('adds write relays, falling back to hints', () => {
+    const routes = routeAuthors(
+      {
+        defaultRelays: ['wss://default.example'],
+        relayLists: new Map([
+          ['a', [
+            { url: 'wss://default.example', read: true, write: true },
+            { url: 'wss://a.example', read: false, write: true },
+            { url: 'wss://inbox.example', read: true, write: false },
+          ]],
+        ]),
+        hints: new Map([['a', 'wss://ignored.example'], ['b', 'wss://b.example']]),
+      },
+      ['a', 'b', 'c']
+    );
+
+    expect(routes).toEqual(new Map([
+      ['wss://default.example', ['a', 'b', 'c']],
+      ['wss://a.example', ['a']],
+      ['wss://b.example', ['b']],
+    ]));
+  });
+});
+
+describe('summarizeCoverage', () => {
+  it('counts events per relay and events missing from defaults', () => {
+    const coverage = summarizeCoverage(
+      new Map([
+        ['e1', new Set(['wss://default.example', 'wss://a.example'])],
+        ['e2', new Set(['wss://a.example'])],
+      ]),
+      ['wss://default.example']
+    );
+
+    expect(coverage.total).toBe(2);
+    expect(coverage.outboxOnly).toBe(1);
+    expect(coverage.relays).toEqual([
+      { url: 'wss://a.example', events: 2, isDefault: false },
+      { url: 'wss://default.example', events: 1, isDefault: true },
+    ]);
+  });
+});
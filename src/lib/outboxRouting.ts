@@ -0,0 +1,125 @@
+// Outbox-model routing: query each author on their own NIP-65 write relays
+
+import type { NostrEvent, NStore } from '@nostrify/nostrify';
+
+export interface RelayListEntry {
+  url: string;
+  read: boolean;
+  write: boolean;
+}
+
+/** Which relays each fetched event was seen on, keyed by event id */
+export type EventSources = Map<string, Set<string>>;
+
+/** How the crawl should route author queries to relays */
+export interface OutboxRouting {
+  /** Open a single relay */
+  relay: (url: string) => NStore;
+  /** Read relays every author is queried on */
+  defaultRelays: string[];
+  /** NIP-65 relay lists of the authors, where known */
+  relayLists: Map<string, RelayListEntry[]>;
+  /** Relay hints from `p` tags, used when an author has no relay list */
+  hints: Map<string, string>;
+  /** Filled in with the relays each fetched event came from */
+  sources: EventSources;
+}
+
+export interface RelayCoverageEntry {
+  url: string;
+  /** Events fetched from this relay */
+  events: number;
+  isDefault: boolean;
+}
+
+export interface RelayCoverage {
+  relays: RelayCoverageEntry[];
+  /** Events fetched from relays during the crawl */
+  total: number;
+  /** Events that no default relay returned */
+  outboxOnly: number;
+}
+
+// Write relays queried per author on top of the defaults
+const MAX_WRITE_RELAYS_PER_AUTHOR = 2;
+
+/** Lowercase the scheme and host and drop trailing slashes so URLs compare equal */
+export function normalizeRelayUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'wss:' && parsed.protocol !== 'ws:') return '';
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return '';
+  }
+}
+
+/** Parse a kind 10002 relay list; `r` tags without a marker are both read and write */
+export function parseRelayList(event: NostrEvent): RelayListEntry[] {
+  return event.tags
+    .filter(([name, url]) => name === 'r' && normalizeRelayUrl(url ?? ''))
+    .map(([, url, marker]) => ({
+      url: normalizeRelayUrl(url),
+      read: !marker || marker === 'read',
+      write: !marker || marker === 'write',
+    }));
+}
+
+/** Relay hints from the third element of a contact list's `p` tags, by pubkey */
+export function parseRelayHints(event: NostrEvent): Map<string, string> {
+  const hints = new Map<string, string>();
+  for (const [name, pubkey, hint] of event.tags) {
+    const url = name === 'p' && pubkey && hint ? normalizeRelayUrl(hint) : '';
+    if (url) hints.set(pubkey, url);
+  }
+  return hints;
+}
+
+/**
+ * Decide which relays to ask for each author: every default relay plus up to
+ * two of the author's write relays, or the `p` tag hint when the author has
+ * no relay list. Returns the authors to query on each relay.
+ */
+export function routeAuthors(
+  routing: Pick<OutboxRouting, 'defaultRelays' | 'relayLists' | 'hints'>,
+  authors: string[]
+): Map<string, string[]> {
+  const defaults = routing.defaultRelays.map(normalizeRelayUrl).filter(Boolean);
+  const routes = new Map<string, string[]>(defaults.map(url => [url, [...authors]]));
+
+  for (const author of authors) {
+    const writeRelays = (routing.relayLists.get(author) ?? [])
+      .filter(relay => relay.write)
+      .map(relay => relay.url);
+    const hint = routing.hints.get(author);
+    const outbox = writeRelays.length > 0 ? writeRelays : hint ? [hint] : [];
+
+    for (const url of outbox.filter(url => !defaults.includes(url)).slice(0, MAX_WRITE_RELAYS_PER_AUTHOR)) {
+      routes.set(url, [...(routes.get(url) ?? []), author]);
+    }
+  }
+
+  return routes;
+}
+
+/** Count the events each relay contributed, most productive relays first */
+export function summarizeCoverage(sources: EventSources, defaultRelays: string[]): RelayCoverage {
+  const defaults = new Set(defaultRelays.map(normalizeRelayUrl));
+  const counts = new Map<string, number>();
+  let outboxOnly = 0;
+
+  for (const relays of sources.values()) {
+    let onDefault = false;
+    for (const url of relays) {
+      counts.set(url, (counts.get(url) ?? 0) + 1);
+      if (defaults.has(url)) onDefault = true;
+    }
+    if (!onDefault) outboxOnly++;
+  }
+
+  const relays = [...counts.entries()]
+    .map(([url, events]) => ({ url, events, isDefault: defaults.has(url) }))
+    .sort((a, b) => b.events - a.events || a.url.localeCompare(b.url));
+
+  return { relays, total: sources.size, outboxOnly };
+}
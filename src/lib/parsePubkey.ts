@@ -0,0 +1,59 @@
+import { nip19 } from 'nostr-tools';
+
+export interface ProfileInput {
+  pubkey: string;
+  /** Relay hints carried by an nprofile */
+  relays: string[];
+}
+
+/** Whether `value` is a 64-character hex pubkey, the only id `nip19.npubEncode` accepts */
+export function isHexPubkey(value: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(value);
+}
+
+/**
+ * Decode a pubkey typed by the user as an npub, nprofile or 64-character hex string.
+ * Throws an Error with a user-facing message when the input is not a valid pubkey.
+ */
+export function parsePubkeyInput(input: string): string {
+  return parseProfileInput(input).pubkey;
+}
+
+/** Like `parsePubkeyInput`, also keeping the relay hints of an nprofile */
+export function parseProfileInput(input: string): ProfileInput {
+  const value = input.trim();
+
+  if (!value) {
+    throw new Error('Please enter an npub or hex pubkey');
+  }
+
+  if (value.startsWith('npub1')) {
+    const decoded = decodeNip19(value);
+    if (decoded.type !== 'npub') {
+      throw new Error('Invalid npub format');
+    }
+    return { pubkey: decoded.data, relays: [] };
+  }
+
+  if (value.startsWith('nprofile1')) {
+    const decoded = decodeNip19(value);
+    if (decoded.type !== 'nprofile') {
+      throw new Error('Invalid nprofile format');
+    }
+    return { pubkey: decoded.data.pubkey, relays: decoded.data.relays ?? [] };
+  }
+
+  if (!isHexPubkey(value)) {
+    throw new Error('Invalid npub or hex pubkey');
+  }
+
+  return { pubkey: value.toLowerCase(), relays: [] };
+}
+
+function decodeNip19(value: string) {
+  try {
+    return nip19.decode(value);
+  } catch {
+    throw new Error('Invalid npub or hex pubkey');
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { findShortestPaths, type PathFinderEdges } from './pathFinder';
+
+/** In-memory edges built from a follow map */
+function createEdges(followMap: Record<string, string[]>): PathFinderEdges & { queried: string[] } {
+  const queried: string[] = [];
+
+  return {
+    queried,
+    getFollows: async (pubkeys) => {
+      queried.push(...pubkeys);
+      return new Map(pubkeys.map(pk => [pk, followMap[pk] ?? []]));
+    },
+    getFollowers: async (pubkeys) => {
+      queried.push(...pubkeys);
+      return new Map(pubkeys.map(pk => [
+        pk,
+        Object.keys(followMap).filter(follower => followMap[follower].includes(pk)),
+      ]));
+    },
+  };
+}
+
+describe('findShortestPaths', () => {
+  it('finds a direct follow', async () => {
+    const result = await findShortestPaths('a', 'b', createEdges({ a: ['b'] }));
+
+    expect(result.distance).toBe(1);
+    expect(result.paths).toEqual([['a', 'b']]);
+  });
+
+  it('returns every shortest path', async () => {
+    const edges = createEdges({
+      a: ['b', 'c'],
+      b: ['d'],
+      c: ['d'],
+      d: ['e'],
+    });
+    const result = await findShortestPaths('a', 'e', edges);
+
+    expect(result.distance).toBe(3);
+    expect(result.paths).toHaveLength(2);
+    expect(result.paths).toContainEqual(['a', 'b', 'd', 'e']);
+    expect(result.paths).toContainEqual(['a', 'c', 'd', 'e']);
+  });
+
+  it('ignores longer paths', async () => {
+    const edges = createEdges({
+      a: ['b', 'e'],
+      b: ['c'],
+      c: ['d'],
+      e: ['d'],
+    });
+    const result = await findShortestPaths('a', 'd', edges);
+
+    expect(result.paths).toEqual([['a', 'e', 'd']]);
+  });
+
+  it('follows edge direction', async () => {
+    const result = await findShortestPaths('b', 'a', createEdges({ a: ['b'] }));
+
+    expect(result.distance).toBeNull();
+    expect(result.paths).toEqual([]);
+  });
+
+  it('respects the depth cap', async () => {
+    const edges = createEdges({ a: ['b'], b: ['c'], c: ['d'] });
+    const result = await findShortestPaths('a', 'd', edges, { maxDepth: 2 });
+
+    expect(result.distance).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+// Degrees-of-separation search between two pubkeys over follow edges
+
+/** Adjacency lookups used by the search, e.g. backed by relay queries */
+export interface PathFinderEdges {
+  /** Map each of `pubkeys` to the pubkeys it follows */
+  getFollows: (pubkeys: string[], signal: AbortSignal) => Promise<Map<string, string[]>>;
+  /** Map each of `pubkeys` to the pubkeys that follow it */
+  getFollowers: (pubkeys: string[], signal: AbortSignal) => Promise<Map<string, string[]>>;
+}
+
+export interface PathFinderOptions {
+  /** Give up on paths longer than this many hops */
+  maxDepth?: number;
+  /** Give up after this many milliseconds */
+  timeout?: number;
+  /** Stop enumerating after this many shortest paths */
+  maxPaths?: number;
+  signal?: AbortSignal;
+}
+
+export interface PathFinderResult {
+  /** Every shortest path found, each running from `from` to `to` */
+  paths: string[][];
+  /** Number of hops in the shortest paths, or null if none was found */
+  distance: number | null;
+  /** How many distinct pubkeys were reached from either end */
+  explored: number;
+  timedOut: boolean;
+}
+
+/** One side of the bidirectional search */
+interface Frontier {
+  /** Hops from this side's origin */
+  dist: Map<string, number>;
+  /** Neighbours one hop closer to this side's origin */
+  prev: Map<string, Set<string>>;
+  level: string[];
+  depth: number;
+}
+
+function createFrontier(origin: string): Frontier {
+  return {
+    dist: new Map([[origin, 0]]),
+    prev: new Map([[origin, new Set()]]),
+    level: [origin],
+    depth: 0,
+  };
+}
+
+/** Expand every pubkey of the current level by one hop */
+async function expand(
+  frontier: Frontier,
+  getNeighbours: (pubkeys: string[], signal: AbortSignal) => Promise<Map<string, string[]>>,
+  signal: AbortSignal
+): Promise<void> {
+  const neighbours = await getNeighbours(frontier.level, signal);
+  const nextDepth = frontier.depth + 1;
+  const next: string[] = [];
+
+  for (const pubkey of frontier.level) {
+    for (const neighbour of neighbours.get(pubkey) ?? []) {
+      const known = frontier.dist.get(neighbour);
+      if (known === undefined) {
+        frontier.dist.set(neighbour, nextDepth);
+        frontier.prev.set(neighbour, new Set([pubkey]));
+        next.push(neighbour);
+      } else if (known === nextDepth) {
+        frontier.prev.get(neighbour)!.add(pubkey);
+      }
+    }
+  }
+
+  frontier.level = next;
+  frontier.depth = nextDepth;
+}
+
+/** All routes from `pubkey` back to the frontier's origin, following `prev` links */
+function walkBack(frontier: Frontier, pubkey: string, limit: number): string[][] {
+  const predecessors = frontier.prev.get(pubkey);
+  if (!predecessors || predecessors.size === 0) return [[pubkey]];
+
+  const routes: string[][] = [];
+  for (const predecessor of predecessors) {
+    for (const route of walkBack(frontier, predecessor, limit - routes.length)) {
+      routes.push([pubkey, ...route]);
+      if (routes.length >= limit) return routes;
+    }
+  }
+  return routes;
+}
+
+/**
+ * Find every shortest directed follow path from `from` to `to`.
+ *
+ * Runs a bidirectional breadth-first search: the forward side walks follow
+ * lists outward from `from`, the backward side walks follower lists outward
+ * from `to`, and the smaller frontier is expanded one full level at a time
+ * until the two meet. Stops early when `maxDepth` or `timeout` is reached.
+ */
+export async function findShortestPaths(
+  from: string,
+  to: string,
+  edges: PathFinderEdges,
+  options: PathFinderOptions = {}
+): Promise<PathFinderResult> {
+  const { maxDepth = 6, timeout = 20000, maxPaths = 50 } = options;
+
+  if (from === to) {
+    return { paths: [[from]], distance: 0, explored: 1, timedOut: false };
+  }
+
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, AbortSignal.timeout(timeout)])
+    : AbortSignal.timeout(timeout);
+
+  const forward = createFrontier(from);
+  const backward = createFrontier(to);
+
+  const explored = () => new Set([...forward.dist.keys(), ...backward.dist.keys()]).size;
+
+  while (forward.depth + backward.depth < maxDepth && forward.level.length > 0 && backward.level.length > 0) {
+    if (forward.level.length <= backward.level.length) {
+      await expand(forward, edges.getFollows, signal);
+    } else {
+      await expand(backward, edges.getFollowers, signal);
+    }
+
+    // The frontiers meet on pubkeys reached from both ends
+    let distance = Infinity;
+    const meetings: string[] = [];
+    for (const [pubkey, forwardDist] of forward.dist) {
+      const backwardDist = backward.dist.get(pubkey);
+      if (backwardDist === undefined) continue;
+
+      const total = forwardDist + backwardDist;
+      if (total < distance) {
+        distance = total;
+        meetings.length = 0;
+      }
+      if (total === distance) {
+        meetings.push(pubkey);
+      }
+    }
+
+    if (meetings.length > 0) {
+      const seen = new Set<string>();
+      const paths: string[][] = [];
+
+      for (const meeting of meetings) {
+        for (const head of walkBack(forward, meeting, maxPaths)) {
+          for (const tail of walkBack(backward, meeting, maxPaths)) {
+            const path = [...head].reverse().concat(tail.slice(1));
+
+            const key = path.join(',');
+            if (!seen.has(key) && paths.length < maxPaths) {
+              seen.add(key);
+              paths.push(path);
+            }
+          }
+        }
+      }
+
+      return { paths, distance, explored: explored(), timedOut: false };
+    }
+
+    if (signal.aborted) {
+      return { paths: [], distance: null, explored: explored(), timedOut: !options.signal?.aborted };
+    }
+  }
+
+  return { paths: [], distance: null, explored: explored(), timedOut: false };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { RelayListEntry } from './outboxRouting';
+import { collectRelayUsage, recommendRelaySet } from './relayOverlap';
+
+const DAMUS = 'wss://relay.damus.io';
+const NOS = 'wss://nos.lol';
+const PRIMAL = 'wss://relay.primal.net';
+const NICHE = 'wss://niche.example';
+
+function list(...entries: [string, 'read' | 'write' | 'both'][]): RelayListEntry[] {
+  return entries.map(([url, use]) => ({ url, read: use !== 'write', write: use !== 'read' }));
+}
+
+const relayLists = new Map<string, RelayListEntry[]>([
+  ['alice', list([DAMUS, 'both'], [NOS, 'read'])],
+  ['bob', list([DAMUS, 'write'], [PRIMAL, 'both'])],
+  ['carol', list([PRIMAL, 'write'])],
+  ['dave', list([NICHE, 'write'], [NOS, 'read'])],
+  ['erin', list([NOS, 'read'])],
+  ['frank', []],
+]);
+
+describe('collectRelayUsage', () => {
+  it('counts users and read/write use per relay', () => {
+    const usage = collectRelayUsage(relayLists);
+
+    expect(usage.map(relay => relay.url)).toEqual([NOS, DAMUS, PRIMAL, NICHE]);
+    expect(usage[0]).toEqual({ url: NOS, users: ['alice', 'dave', 'erin'], read: 3, write: 0 });
+    expect(usage[1]).toMatchObject({ read: 1, write: 2 });
+  });
+
+  it('merges the flags of a relay listed twice by one user', () => {
+    const usage = collectRelayUsage(new Map([['alice', list([DAMUS, 'read'], [DAMUS, 'write'])]]));
+
+    expect(usage).toEqual([{ url: DAMUS, users: ['alice'], read: 1, write: 1 }]);
+  });
+});
+
+describe('recommendRelaySet', () => {
+  const follows = ['alice', 'bob', 'carol', 'dave', 'erin', 'frank'];
+
+  it('greedily covers the users with write relays', () => {
+    expect(recommendRelaySet(relayLists, follows, 1)).toEqual({
+      relays: [DAMUS, NICHE, PRIMAL],
+      covered: 4,
+      total: 4,
+      unknown: 2,
+    });
+  });
+
+  it('stops at the target coverage or relay limit', () => {
+    expect(recommendRelaySet(relayLists, follows, 0.5).relays).toEqual([DAMUS]);
+    expect(recommendRelaySet(relayLists, follows, 1, 2)).toMatchObject({ relays: [DAMUS, NICHE], covered: 3 });
+  });
+});
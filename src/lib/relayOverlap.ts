@@ -0,0 +1,108 @@
+// Relay usage across a set of users' NIP-65 relay lists
+
+import type { RelayListEntry } from '@/lib/outboxRouting';
+
+export interface RelayUsage {
+  url: string;
+  /** Users listing the relay, for reading or writing */
+  users: string[];
+  /** Users reading from the relay */
+  read: number;
+  /** Users writing to the relay */
+  write: number;
+}
+
+export interface RelayRecommendation {
+  /** Relays to connect to, in the order they were picked */
+  relays: string[];
+  /** Users publishing to at least one recommended relay */
+  covered: number;
+  /** Users with a relay list that lists write relays */
+  total: number;
+  /** Users without a usable relay list, who can't be covered */
+  unknown: number;
+}
+
+/** Count, per relay, the users listing it and how they use it; most used first */
+export function collectRelayUsage(relayLists: Map<string, RelayListEntry[]>): RelayUsage[] {
+  const usage = new Map<string, RelayUsage>();
+
+  for (const [pubkey, entries] of relayLists) {
+    // A relay listed twice, e.g. once per marker, counts once with both flags
+    const flags = new Map<string, { read: boolean; write: boolean }>();
+    for (const entry of entries) {
+      const merged = flags.get(entry.url);
+      flags.set(entry.url, {
+        read: entry.read || !!merged?.read,
+        write: entry.write || !!merged?.write,
+      });
+    }
+
+    for (const [url, { read, write }] of flags) {
+      const relay = usage.get(url) ?? { url, users: [], read: 0, write: 0 };
+      relay.users.push(pubkey);
+      if (read) relay.read++;
+      if (write) relay.write++;
+      usage.set(url, relay);
+    }
+  }
+
+  return [...usage.values()].sort((a, b) => b.users.length - a.users.length || a.url.localeCompare(b.url));
+}
+
+/**
+ * Greedily pick the relays that reach the most not-yet-covered users until
+ * `targetCoverage` of them publish to a picked relay, or `maxRelays` are
+ * picked. A user is covered by any of their write relays, since that is where
+ * their notes can be read from.
+ */
+export function recommendRelaySet(
+  relayLists: Map<string, RelayListEntry[]>,
+  pubkeys: string[],
+  targetCoverage = 0.9,
+  maxRelays = 10
+): RelayRecommendation {
+  const writers = new Map<string, Set<string>>();
+  let unknown = 0;
+
+  for (const pubkey of new Set(pubkeys)) {
+    const writeRelays = (relayLists.get(pubkey) ?? []).filter(entry => entry.write);
+    if (writeRelays.length === 0) {
+      unknown++;
+      continue;
+    }
+    for (const { url } of writeRelays) {
+      const users = writers.get(url) ?? new Set();
+      users.add(pubkey);
+      writers.set(url, users);
+    }
+  }
+
+  const total = new Set([...writers.values()].flatMap(users => [...users])).size;
+  const covered = new Set<string>();
+  const relays: string[] = [];
+
+  while (relays.length < maxRelays && covered.size < total * targetCoverage) {
+    let best: string | undefined;
+    let bestGain = 0;
+
+    for (const [url, users] of writers) {
+      let gain = 0;
+      for (const user of users) {
+        if (!covered.has(user)) gain++;
+      }
+      if (gain > bestGain || (gain === bestGain && gain > 0 && best !== undefined && url < best)) {
+        best = url;
+        bestGain = gain;
+      }
+    }
+
+    if (!best) break;
+
+    relays.push(best);
+    for (const user of writers.get(best)!) covered.add(user);
+    writers.delete(best);
+  }
+
+  return { relays, covered: covered.size, total, unknown };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { collectTopics, getHashtags, topTopicUsers } from './topicGraph';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+
+let nextId = 0;
+function note(pubkey: string, tags: string[], kind = 1): NostrEvent {
+  return {
+    id: String(nextId++),
+    pubkey,
+    created_at: 0,
+    kind,
+    tags: tags.map(tag => ['t', tag]),
+    content: '',
+    sig: 'sig',
+  };
+}
+
+describe('getHashtags', () => {
+  it('normalizes and de-duplicates tags', () => {
+    expect(getHashtags(note(ALICE, ['Nostr', '#nostr', ' Bitcoin ', '#', '']))).toEqual(['nostr', 'bitcoin']);
+  });
+
+  it('caps tags per note', () => {
+    const tags = Array.from({ length: 30 }, (_, i) => `tag${i}`);
+    expect(getHashtags(note(ALICE, tags))).toHaveLength(10);
+  });
+});
+
+describe('collectTopics', () => {
+  it('counts usage per author and links co-occurring tags', () => {
+    const duplicate = note(ALICE, ['nostr', 'bitcoin']);
+    const { topics, edges } = collectTopics([
+      duplicate,
+      duplicate,
+      note(ALICE, ['Bitcoin', 'nostr', 'zaps']),
+      note(BOB, ['nostr']),
+      note(BOB, ['ignored'], 7),
+    ]);
+
+    expect([...topics.keys()].sort()).toEqual(['bitcoin', 'nostr', 'zaps']);
+    expect(topics.get('nostr')?.count).toBe(3);
+    expect(edges).toContainEqual({ source: 'bitcoin', target: 'nostr', weight: 2 });
+    expect(edges).toHaveLength(3);
+
+    expect(topTopicUsers(topics.get('nostr')!)).toEqual([[ALICE, 2], [BOB, 1]]);
+  });
+});
@@ -0,0 +1,76 @@
+// Hashtag co-occurrence from the `t` tags of kind 1 notes
+
+import type { NostrEvent } from '@nostrify/nostrify';
+
+export interface TopicStats {
+  tag: string;
+  /** Number of notes using the tag */
+  count: number;
+  /** Notes using the tag, per author */
+  users: Map<string, number>;
+}
+
+export interface TopicEdge {
+  source: string;
+  target: string;
+  /** Number of notes using both tags */
+  weight: number;
+}
+
+export interface TopicGraph {
+  topics: Map<string, TopicStats>;
+  edges: TopicEdge[];
+}
+
+// Notes with more tags than this are usually spam; only their first tags count
+const MAX_TAGS_PER_NOTE = 10;
+
+/** Normalized, de-duplicated hashtags of a note: lowercase and without a leading `#` */
+export function getHashtags(event: NostrEvent): string[] {
+  const tags = event.tags
+    .filter(([name, value]) => name === 't' && value)
+    .map(([, value]) => value.trim().replace(/^#+/, '').toLowerCase())
+    .filter(tag => tag.length > 0);
+
+  return [...new Set(tags)].slice(0, MAX_TAGS_PER_NOTE);
+}
+
+/**
+ * Count hashtag usage per author and link every pair of hashtags used in the
+ * same note, one undirected edge per pair.
+ */
+export function collectTopics(events: NostrEvent[]): TopicGraph {
+  const topics = new Map<string, TopicStats>();
+  const edges = new Map<string, TopicEdge>();
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    if (event.kind !== 1 || seen.has(event.id)) continue;
+    seen.add(event.id);
+
+    const tags = getHashtags(event).sort();
+
+    for (const tag of tags) {
+      const stats = topics.get(tag) ?? { tag, count: 0, users: new Map() };
+      stats.count++;
+      stats.users.set(event.pubkey, (stats.users.get(event.pubkey) ?? 0) + 1);
+      topics.set(tag, stats);
+    }
+
+    for (let i = 0; i < tags.length; i++) {
+      for (let j = i + 1; j < tags.length; j++) {
+        const key = `${tags[i]}:${tags[j]}`;
+        const edge = edges.get(key) ?? { source: tags[i], target: tags[j], weight: 0 };
+        edge.weight++;
+        edges.set(key, edge);
+      }
+    }
+  }
+
+  return { topics, edges: [...edges.values()] };
+}
+
+/** Authors using a hashtag most, as [pubkey, note count] pairs */
+export function topTopicUsers(stats: TopicStats, top = 10): [string, number][] {
+  return [...stats.users.entries()].sort((a, b) => b[1] - a[1]).slice(0, top);
+}
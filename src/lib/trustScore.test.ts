@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { computeTrustScores } from './trustScore';
+
+describe('computeTrustScores', () => {
+  it('gives the root a score of 1', () => {
+    const scores = computeTrustScores(new Map([['root', ['a']]]), 'root');
+
+    expect(scores.get('root')).toBe(1);
+  });
+
+  it('trusts direct follows more than follows of follows', () => {
+    const followMap = new Map([
+      ['root', ['a', 'b']],
+      ['a', ['c']],
+    ]);
+    const scores = computeTrustScores(followMap, 'root');
+
+    expect(scores.get('a')).toBeGreaterThan(scores.get('c')!);
+    expect(scores.get('c')).toBeGreaterThan(0);
+  });
+
+  it('ranks users followed by more trusted users higher', () => {
+    const followMap = new Map([
+      ['root', ['a', 'b']],
+      ['a', ['c', 'd']],
+      ['b', ['c']],
+    ]);
+    const scores = computeTrustScores(followMap, 'root');
+
+    expect(scores.get('c')).toBeGreaterThan(scores.get('d')!);
+  });
+
+  it('counts mutes negatively', () => {
+    const followMap = new Map([['root', ['a', 'b']]]);
+    const muteMap = new Map([['root', ['b']]]);
+    const scores = computeTrustScores(followMap, 'root', muteMap);
+
+    expect(scores.get('a')).toBe(1);
+    expect(scores.get('b')).toBeLessThan(0);
+  });
+
+  it('gives unreachable users a score of 0', () => {
+    const followMap = new Map([
+      ['root', ['a']],
+      ['x', ['y']],
+    ]);
+    const scores = computeTrustScores(followMap, 'root');
+
+    expect(scores.get('x')).toBe(0);
+    expect(scores.get('y')).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+// Personalized Web-of-Trust scoring over a crawled follow graph
+
+export interface TrustScoreOptions {
+  /** Probability of following an edge instead of jumping back to the root */
+  damping?: number;
+  /** Maximum number of power iterations */
+  maxIterations?: number;
+  /** Stop iterating once the total rank change drops below this value */
+  tolerance?: number;
+  /** How strongly a mute counts against a user, relative to a follow */
+  muteWeight?: number;
+}
+
+/**
+ * Compute personalized PageRank scores seen from `rootPubkey`.
+ *
+ * Rank flows from the root along follow edges, and every random jump returns
+ * to the root, so scores measure how reachable a user is from the root's
+ * point of view. Mutes then subtract rank the same way follows add it.
+ *
+ * Scores are normalized so the most trusted non-root user has a score of 1;
+ * muted users can go as low as -1. The root always scores 1.
+ */
+export function computeTrustScores(
+  followMap: Map<string, string[]>,
+  rootPubkey: string,
+  muteMap: Map<string, string[]> = new Map(),
+  options: TrustScoreOptions = {}
+): Map<string, number> {
+  const { damping = 0.85, maxIterations = 50, tolerance = 1e-6, muteWeight = 1 } = options;
+
+  // Collect every pubkey and deduplicated out-edges
+  const outEdges = new Map<string, string[]>();
+  const pubkeys = new Set<string>([rootPubkey]);
+
+  for (const [source, targets] of followMap) {
+    const unique = [...new Set(targets)].filter(target => target !== source);
+    outEdges.set(source, unique);
+    pubkeys.add(source);
+    unique.forEach(target => pubkeys.add(target));
+  }
+
+  let rank = new Map<string, number>([[rootPubkey, 1]]);
+
+  for (let i = 0; i < maxIterations; i++) {
+    const next = new Map<string, number>();
+    // Jumps and dangling rank (users without a crawled contact list) go back to the root
+    let rootMass = 1 - damping;
+
+    for (const [pubkey, value] of rank) {
+      const targets = outEdges.get(pubkey);
+      if (!targets || targets.length === 0) {
+        rootMass += damping * value;
+        continue;
+      }
+
+      const share = (damping * value) / targets.length;
+      for (const target of targets) {
+        next.set(target, (next.get(target) ?? 0) + share);
+      }
+    }
+    next.set(rootPubkey, (next.get(rootPubkey) ?? 0) + rootMass);
+
+    let delta = 0;
+    for (const pubkey of pubkeys) {
+      delta += Math.abs((next.get(pubkey) ?? 0) - (rank.get(pubkey) ?? 0));
+    }
+
+    rank = next;
+    if (delta < tolerance) break;
+  }
+
+  // Mutes subtract the muter's rank, split across everyone they mute
+  const scores = new Map<string, number>();
+  for (const pubkey of pubkeys) {
+    scores.set(pubkey, rank.get(pubkey) ?? 0);
+  }
+
+  for (const [source, targets] of muteMap) {
+    const sourceRank = rank.get(source) ?? 0;
+    const unique = [...new Set(targets)].filter(target => target !== source);
+    if (sourceRank === 0 || unique.length === 0) continue;
+
+    const penalty = (muteWeight * damping * sourceRank) / unique.length;
+    for (const target of unique) {
+      scores.set(target, (scores.get(target) ?? 0) - penalty);
+    }
+  }
+
+  // Normalize against the highest-scoring non-root user
+  let max = 0;
+  for (const [pubkey, score] of scores) {
+    if (pubkey !== rootPubkey) {
+      max = Math.max(max, score);
+    }
+  }
+
+  const normalized = new Map<string, number>();
+  for (const [pubkey, score] of scores) {
+    if (pubkey === rootPubkey) {
+      normalized.set(pubkey, 1);
+    } else {
+      normalized.set(pubkey, max > 0 ? Math.max(-1, Math.min(1, score / max)) : 0);
+    }
+  }
+
+  return normalized;
+}
+
+/** Node radius for a trust score: distrusted and unknown users stay small */
+export function trustRadius(score: number): number {
+  return 8 + Math.max(0, score) * 12;
+}
+
+/** Node color for a trust score: red for negative, pale to saturated blue for positive */
+export function trustColor(score: number): string {
+  if (score < 0) return '#ef4444'; // red-500
+
+  const t = Math.min(1, score);
+  const saturation = Math.round(25 + t * 65);
+  const lightness = Math.round(72 - t * 19);
+  return `hsl(217, ${saturation}%, ${lightness}%)`;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { fitViewport, MAX_ZOOM, screenToWorld, zoomAt, type Viewport } from './viewport';
+
+describe('zoomAt', () => {
+  it('keeps the point under the cursor in place', () => {
+    const viewport: Viewport = { x: 30, y: -20, k: 1.5 };
+    const before = screenToWorld(viewport, 200, 150);
+
+    const zoomed = zoomAt(viewport, 200, 150, 2);
+
+    expect(zoomed.k).toBe(3);
+    const after = screenToWorld(zoomed, 200, 150);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  it('clamps the zoom level', () => {
+    expect(zoomAt({ x: 0, y: 0, k: 4 }, 0, 0, 10).k).toBe(MAX_ZOOM);
+  });
+});
+
+describe('fitViewport', () => {
+  it('centers the nodes on the screen', () => {
+    const nodes = [
+      { x: -1000, y: 0, radius: 10 },
+      { x: 1000, y: 500, radius: 10 },
+    ];
+
+    const viewport = fitViewport(nodes, 800, 600, 40);
+
+    // Width is the tighter fit: 720px for 2020 graph units
+    expect(viewport.k).toBeCloseTo(720 / 2020);
+    const center = screenToWorld(viewport, 400, 300);
+    expect(center.x).toBeCloseTo(0);
+    expect(center.y).toBeCloseTo(250);
+  });
+
+  it('does not zoom far into a single node', () => {
+    expect(fitViewport([{ x: 5, y: 5, radius: 8 }], 800, 600).k).toBe(2);
+  });
+});
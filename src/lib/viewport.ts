@@ -0,0 +1,67 @@
+// Pan and zoom transform between graph coordinates and the screen
+
+/** A point at (x, y) in the graph is drawn at (x * k + viewport.x, y * k + viewport.y) */
+export interface Viewport {
+  x: number;
+  y: number;
+  k: number;
+}
+
+export const IDENTITY_VIEWPORT: Viewport = { x: 0, y: 0, k: 1 };
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+
+// Fitting a handful of nodes shouldn't blow them up to fill the screen
+const MAX_FIT_ZOOM = 2;
+
+/** Graph coordinates of a point on the screen */
+export function screenToWorld(viewport: Viewport, x: number, y: number): { x: number; y: number } {
+  return { x: (x - viewport.x) / viewport.k, y: (y - viewport.y) / viewport.k };
+}
+
+/** Zoom by `factor`, keeping the graph point under (x, y) on the screen in place */
+export function zoomAt(viewport: Viewport, x: number, y: number, factor: number): Viewport {
+  const k = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, viewport.k * factor));
+  const world = screenToWorld(viewport, x, y);
+  return { x: x - world.x * k, y: y - world.y * k, k };
+}
+
+export function panBy(viewport: Viewport, dx: number, dy: number): Viewport {
+  return { ...viewport, x: viewport.x + dx, y: viewport.y + dy };
+}
+
+/** The viewport that centers all nodes on a `width` × `height` screen, with `padding` pixels around */
+export function fitViewport(
+  nodes: { x: number; y: number; radius: number }[],
+  width: number,
+  height: number,
+  padding = 40
+): Viewport {
+  if (nodes.length === 0) return IDENTITY_VIEWPORT;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const node of nodes) {
+    minX = Math.min(minX, node.x - node.radius);
+    minY = Math.min(minY, node.y - node.radius);
+    maxX = Math.max(maxX, node.x + node.radius);
+    maxY = Math.max(maxY, node.y + node.radius);
+  }
+
+  const k = Math.max(
+    MIN_ZOOM,
+    Math.min(
+      MAX_FIT_ZOOM,
+      (width - padding * 2) / Math.max(maxX - minX, 1),
+      (height - padding * 2) / Math.max(maxY - minY, 1)
+    )
+  );
+  return {
+    x: width / 2 - ((minX + maxX) / 2) * k,
+    y: height / 2 - ((minY + maxY) / 2) * k,
+    k,
+  };
+}
@@ -0,0 +1,134 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import type { GraphLink, GraphNode } from './forceGraph';
+import type { RenderScene } from './graphRenderer';
+import { WebGLGraphRenderer } from './webglRenderer';
+
+type Call = { name: string; args: unknown[] };
+
+/** WebGL 2 stand-in that records every call; jsdom has no WebGL */
+function fakeWebGL(options: { compiles?: boolean } = {}) {
+  const calls: Call[] = [];
+  const state: Record<string, unknown> = {
+    drawingBufferWidth: 800,
+    drawingBufferHeight: 600,
+    getShaderParameter: () => options.compiles ?? true,
+    getProgramParameter: () => true,
+    getShaderInfoLog: () => 'syntax error',
+    getAttribLocation: () => 0,
+  };
+
+  const gl = new Proxy(state, {
+    get(target, prop: string) {
+      if (prop in target) return target[prop];
+      // Constants like gl.TRIANGLES
+      if (/^[A-Z0-9_]+$/.test(prop)) return prop;
+      return (...args: unknown[]) => {
+        calls.push({ name: prop, args });
+        return {};
+      };
+    },
+  });
+  return { gl, calls };
+}
+
+/** 2D context stand-in for the label overlay, avatar atlas and color parsing */
+function fake2d(): CanvasRenderingContext2D {
+  return {
+    fillStyle: '#000000',
+    font: '',
+    textAlign: 'left',
+    textBaseline: 'alphabetic',
+    clearRect: vi.fn(),
+    fillRect: vi.fn(),
+    fillText: vi.fn(),
+    drawImage: vi.fn(),
+    measureText: () => ({ width: 20 }),
+  } as unknown as CanvasRenderingContext2D;
+}
+
+function mockContexts(gl: unknown) {
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+    ((kind: string) => (kind === 'webgl2' ? gl : fake2d())) as never
+  );
+}
+
+function node(id: string, x: number, y: number): GraphNode {
+  return { id, label: id, x, y, vx: 0, vy: 0, radius: 10, color: '#3b82f6' };
+}
+
+function scene(nodes: GraphNode[], links: GraphLink[]): RenderScene {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  return {
+    nodes,
+    links,
+    getNode: id => byId.get(id),
+    width: 800,
+    height: 600,
+    viewport: { x: 10, y: 20, k: 2 },
+    images: new Map(),
+    maxWeight: 0,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('WebGLGraphRenderer', () => {
+  it('returns null without WebGL 2', () => {
+    mockContexts(null);
+
+    expect(WebGLGraphRenderer.create(document.createElement('canvas'), fake2d())).toBeNull();
+  });
+
+  it('returns null when the shaders fail to compile', () => {
+    const { gl } = fakeWebGL({ compiles: false });
+    mockContexts(gl);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(WebGLGraphRenderer.create(document.createElement('canvas'), fake2d())).toBeNull();
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it('draws one instance per node and each mutual pair once, through the viewport', () => {
+    const { gl, calls } = fakeWebGL();
+    mockContexts(gl);
+    const renderer = WebGLGraphRenderer.create(document.createElement('canvas'), fake2d())!;
+    calls.length = 0;
+
+    renderer.render(scene(
+      [node('a', 100, 50), node('b', 200, 80), node('c', 300, 90)],
+      [
+        { source: 'a', target: 'b', type: 'mutual' },
+        { source: 'b', target: 'a', type: 'mutual' },
+        { source: 'b', target: 'c' },
+      ]
+    ));
+
+    // Two links, six vertices each
+    expect(calls.find(c => c.name === 'drawArrays')?.args.slice(1)).toEqual([0, 12]);
+    expect(calls.find(c => c.name === 'drawArraysInstanced')?.args.slice(1)).toEqual([0, 6, 3]);
+
+    const viewports = calls.filter(c => c.name === 'uniform3f').map(c => c.args.slice(1));
+    expect(viewports).toEqual([[10, 20, 2], [10, 20, 2]]);
+
+    // Node instances: center and radius lead each 14-float record
+    const instances = calls.filter(c => c.name === 'bufferData').at(-1)!.args[1] as Float32Array;
+    expect([...instances.slice(14, 17)]).toEqual([200, 80, 10]);
+  });
+
+  it('draws a mutual link whose reverse is missing', () => {
+    const { gl, calls } = fakeWebGL();
+    mockContexts(gl);
+    const renderer = WebGLGraphRenderer.create(document.createElement('canvas'), fake2d())!;
+    calls.length = 0;
+
+    // e.g. a follow back found in a leaf's contact list, sorting after its target
+    renderer.render(scene(
+      [node('a', 100, 50), node('b', 200, 80)],
+      [{ source: 'b', target: 'a', type: 'mutual' }]
+    ));
+
+    expect(calls.find(c => c.name === 'drawArrays')?.args.slice(1)).toEqual([0, 6]);
+  });
+});
@@ -0,0 +1,420 @@
+// WebGL 2 graph renderer for very large graphs: instanced circles, batched
+// link geometry and an avatar texture atlas
+
+import type { GraphNode } from '@/lib/forceGraph';
+import {
+  drawLabel,
+  HIGHLIGHT_COLOR,
+  isMirroredMutual,
+  LINK_STYLES,
+  linkWidth,
+  nodeBorder,
+  showsLabel,
+  type GraphRenderer,
+  type RenderScene,
+} from '@/lib/graphRenderer';
+
+type RGBA = [number, number, number, number];
+
+// Avatar atlas: square cells on a square texture
+const ATLAS_SIZE = 2048;
+const ATLAS_CELL = 64;
+const ATLAS_COLUMNS = ATLAS_SIZE / ATLAS_CELL;
+const ATLAS_SLOTS = ATLAS_COLUMNS * ATLAS_COLUMNS;
+
+// Floats per node instance: center (2), radius (1), fill (4), border (4), border width, ring, atlas slot
+const NODE_STRIDE = 14;
+// Floats per link vertex: position (2), color (4)
+const LINK_STRIDE = 6;
+
+// Both vertex shaders map graph coordinates through the viewport (u_viewport: x, y, k) to clip space
+const CIRCLE_VERTEX_SHADER = `#version 300 es
+uniform vec2 u_resolution;
+uniform vec3 u_viewport;
+in vec2 a_corner;
+in vec2 a_center;
+in float a_radius;
+in vec4 a_fill;
+in vec4 a_border;
+in vec3 a_params;
+out vec2 v_offset;
+out float v_radius;
+out vec4 v_fill;
+out vec4 v_border;
+out vec3 v_params;
+
+void main() {
+  // Leave room for the border and the expanded ring
+  float extent = a_radius + (a_params.y > 0.5 ? 6.0 : 2.0);
+  v_offset = a_corner * extent;
+  v_radius = a_radius;
+  v_fill = a_fill;
+  v_border = a_border;
+  v_params = a_params;
+
+  vec2 screen = (a_center + v_offset) * u_viewport.z + u_viewport.xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const CIRCLE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform sampler2D u_atlas;
+uniform float u_atlasColumns;
+in vec2 v_offset;
+in float v_radius;
+in vec4 v_fill;
+in vec4 v_border;
+in vec3 v_params;
+out vec4 outColor;
+
+void main() {
+  float d = length(v_offset);
+  vec4 color = vec4(0.0);
+
+  if (d <= v_radius) {
+    if (v_params.z >= 0.0) {
+      vec2 cell = vec2(mod(v_params.z, u_atlasColumns), floor(v_params.z / u_atlasColumns));
+      vec2 local = v_offset / (2.0 * v_radius) + 0.5;
+      color = texture(u_atlas, (cell + local) / u_atlasColumns);
+    } else {
+      color = v_fill;
+    }
+  }
+
+  // Border stroked on the circle's edge
+  if (abs(d - v_radius) <= v_params.x / 2.0) {
+    color = v_border;
+  }
+
+  // Dashed ring around expanded nodes
+  float ringRadius = v_radius + 4.0;
+  if (v_params.y > 0.5 && abs(d - ringRadius) <= 0.75) {
+    float arc = atan(v_offset.y, v_offset.x) * ringRadius;
+    if (fract(arc / 6.0) < 0.5) {
+      color = v_fill;
+    }
+  }
+
+  if (color.a == 0.0) discard;
+  outColor = vec4(color.rgb * color.a, color.a);
+}`;
+
+const LINE_VERTEX_SHADER = `#version 300 es
+uniform vec2 u_resolution;
+uniform vec3 u_viewport;
+in vec2 a_position;
+in vec4 a_color;
+out vec4 v_color;
+
+void main() {
+  v_color = a_color;
+  vec2 screen = a_position * u_viewport.z + u_viewport.xy;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const LINE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+out vec4 outColor;
+
+void main() {
+  outColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}`;
+
+function compileProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram()!;
+
+  for (const [type, source] of [[gl.VERTEX_SHADER, vertexSource], [gl.FRAGMENT_SHADER, fragmentSource]] as const) {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Failed to compile shader: ${gl.getShaderInfoLog(shader)}`);
+    }
+    gl.attachShader(program, shader);
+  }
+
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Failed to link program: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+export class WebGLGraphRenderer implements GraphRenderer {
+  private circleProgram: WebGLProgram;
+  private lineProgram: WebGLProgram;
+  private circleVao: WebGLVertexArrayObject;
+  private lineVao: WebGLVertexArrayObject;
+  private quadBuffer: WebGLBuffer;
+  private instanceBuffer: WebGLBuffer;
+  private lineBuffer: WebGLBuffer;
+  private atlasTexture: WebGLTexture;
+
+  private atlas: HTMLCanvasElement;
+  private atlasSlots = new Map<string, number>();
+  private atlasDirty = false;
+
+  private colors = new Map<string, RGBA>();
+  private colorContext: CanvasRenderingContext2D;
+
+  private instances = new Float32Array(0);
+  private lineVertices = new Float32Array(0);
+
+  /** Create a renderer, or return null when WebGL 2 isn't available */
+  static create(canvas: HTMLCanvasElement, labels: CanvasRenderingContext2D): WebGLGraphRenderer | null {
+    const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, antialias: true });
+    if (!gl) return null;
+
+    try {
+      return new WebGLGraphRenderer(gl, labels);
+    } catch (error) {
+      console.warn('[WebGLRenderer] Falling back to Canvas 2D:', error);
+      return null;
+    }
+  }
+
+  private constructor(private gl: WebGL2RenderingContext, private labels: CanvasRenderingContext2D) {
+    this.circleProgram = compileProgram(gl, CIRCLE_VERTEX_SHADER, CIRCLE_FRAGMENT_SHADER);
+    this.lineProgram = compileProgram(gl, LINE_VERTEX_SHADER, LINE_FRAGMENT_SHADER);
+
+    // Circles: a shared quad, drawn once per node instance
+    this.circleVao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.circleVao);
+
+    this.quadBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    const corner = gl.getAttribLocation(this.circleProgram, 'a_corner');
+    gl.enableVertexAttribArray(corner);
+    gl.vertexAttribPointer(corner, 2, gl.FLOAT, false, 0, 0);
+
+    this.instanceBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    let offset = 0;
+    for (const [name, size] of [['a_center', 2], ['a_radius', 1], ['a_fill', 4], ['a_border', 4], ['a_params', 3]] as const) {
+      const location = gl.getAttribLocation(this.circleProgram, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, NODE_STRIDE * 4, offset * 4);
+      gl.vertexAttribDivisor(location, 1);
+      offset += size;
+    }
+
+    // Links: one batch of quads, two triangles each
+    this.lineVao = gl.createVertexArray()!;
+    gl.bindVertexArray(this.lineVao);
+    this.lineBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuffer);
+    offset = 0;
+    for (const [name, size] of [['a_position', 2], ['a_color', 4]] as const) {
+      const location = gl.getAttribLocation(this.lineProgram, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, LINK_STRIDE * 4, offset * 4);
+      offset += size;
+    }
+    gl.bindVertexArray(null);
+
+    this.atlas = document.createElement('canvas');
+    this.atlas.width = ATLAS_SIZE;
+    this.atlas.height = ATLAS_SIZE;
+    this.atlasTexture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, this.atlasTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.atlas);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    const colorCanvas = document.createElement('canvas');
+    this.colorContext = colorCanvas.getContext('2d')!;
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  /** Parse any CSS color by letting a 2D context normalize it */
+  private color(css: string): RGBA {
+    let rgba = this.colors.get(css);
+    if (rgba) return rgba;
+
+    this.colorContext.fillStyle = '#000000';
+    this.colorContext.fillStyle = css;
+    const normalized = this.colorContext.fillStyle;
+    const match = normalized.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    if (match) {
+      rgba = [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255, 1];
+    } else {
+      const [r = 0, g = 0, b = 0, a = 1] = (normalized.match(/[\d.]+/g) ?? []).map(Number);
+      rgba = [r / 255, g / 255, b / 255, a];
+    }
+
+    this.colors.set(css, rgba);
+    return rgba;
+  }
+
+  /** Atlas slot of a node's avatar, adding loaded images while slots remain; -1 draws the fill color */
+  private avatarSlot(node: GraphNode, images: Map<string, HTMLImageElement>): number {
+    if (!node.avatar) return -1;
+
+    const slot = this.atlasSlots.get(node.avatar);
+    if (slot !== undefined) return slot;
+
+    const img = images.get(node.avatar);
+    if (!img || !img.complete || this.atlasSlots.size >= ATLAS_SLOTS) return -1;
+
+    const next = this.atlasSlots.size;
+    const ctx = this.atlas.getContext('2d')!;
+    ctx.drawImage(
+      img,
+      (next % ATLAS_COLUMNS) * ATLAS_CELL,
+      Math.floor(next / ATLAS_COLUMNS) * ATLAS_CELL,
+      ATLAS_CELL,
+      ATLAS_CELL
+    );
+    this.atlasSlots.set(node.avatar, next);
+    this.atlasDirty = true;
+    return next;
+  }
+
+  private pushLine(
+    vertices: Float32Array,
+    index: number,
+    from: GraphNode,
+    to: GraphNode,
+    width: number,
+    color: RGBA
+  ): number {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy) || 1;
+    // Half-width offset perpendicular to the link
+    const nx = (-dy / length) * (width / 2);
+    const ny = (dx / length) * (width / 2);
+
+    // Two triangles; written in place since this runs for every link, every frame
+    const xs = [from.x + nx, from.x - nx, to.x + nx, to.x + nx, from.x - nx, to.x - nx];
+    const ys = [from.y + ny, from.y - ny, to.y + ny, to.y + ny, from.y - ny, to.y - ny];
+    for (let i = 0; i < 6; i++) {
+      vertices[index] = xs[i];
+      vertices[index + 1] = ys[i];
+      vertices[index + 2] = color[0];
+      vertices[index + 3] = color[1];
+      vertices[index + 4] = color[2];
+      vertices[index + 5] = color[3];
+      index += LINK_STRIDE;
+    }
+    return index;
+  }
+
+  render(scene: RenderScene): void {
+    const { gl } = this;
+    const { highlightedPath, viewport } = scene;
+    const pathNodes = new Set(highlightedPath);
+
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    // Links, then highlighted path hops on top. Mutes are drawn solid; WebGL has no line dashes
+    const hops = highlightedPath && highlightedPath.length > 1 ? highlightedPath.length - 1 : 0;
+    const needed = (scene.links.length + hops) * 6 * LINK_STRIDE;
+    if (this.lineVertices.length < needed) {
+      this.lineVertices = new Float32Array(needed);
+    }
+
+    let index = 0;
+    for (const link of scene.links) {
+      // Mutual follows usually appear in both directions; draw each pair once
+      if (isMirroredMutual(link, scene.links)) continue;
+
+      const source = scene.getNode(link.source);
+      const target = scene.getNode(link.target);
+      if (source && target) {
+        const color = this.color(LINK_STYLES[link.type ?? 'one-way'].color);
+        index = this.pushLine(this.lineVertices, index, source, target, linkWidth(link, scene.maxWeight), color);
+      }
+    }
+    for (let i = 0; i < hops; i++) {
+      const source = scene.getNode(highlightedPath![i]);
+      const target = scene.getNode(highlightedPath![i + 1]);
+      if (source && target) {
+        index = this.pushLine(this.lineVertices, index, source, target, 3, this.color(HIGHLIGHT_COLOR));
+      }
+    }
+
+    if (index > 0) {
+      gl.useProgram(this.lineProgram);
+      gl.uniform2f(gl.getUniformLocation(this.lineProgram, 'u_resolution'), scene.width, scene.height);
+      gl.uniform3f(gl.getUniformLocation(this.lineProgram, 'u_viewport'), viewport.x, viewport.y, viewport.k);
+      gl.bindVertexArray(this.lineVao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, this.lineVertices.subarray(0, index), gl.DYNAMIC_DRAW);
+      gl.drawArrays(gl.TRIANGLES, 0, index / LINK_STRIDE);
+    }
+
+    // Nodes, one instance each
+    if (this.instances.length < scene.nodes.length * NODE_STRIDE) {
+      this.instances = new Float32Array(scene.nodes.length * NODE_STRIDE);
+    }
+
+    const instances = this.instances;
+    scene.nodes.forEach((node, i) => {
+      const isHovered = scene.hoveredId === node.id;
+      const isOnPath = pathNodes.has(node.id);
+      const slot = this.avatarSlot(node, scene.images);
+      const fill = this.color(node.color);
+      const { color: borderColor, width: borderWidth } = nodeBorder(node, isHovered, isOnPath, slot >= 0);
+      const border = this.color(borderColor);
+
+      const offset = i * NODE_STRIDE;
+      instances[offset] = node.x;
+      instances[offset + 1] = node.y;
+      instances[offset + 2] = node.radius;
+      for (let c = 0; c < 4; c++) {
+        instances[offset + 3 + c] = fill[c];
+        instances[offset + 7 + c] = border[c];
+      }
+      instances[offset + 11] = borderWidth;
+      instances[offset + 12] = node.expanded ? 1 : 0;
+      instances[offset + 13] = slot;
+    });
+
+    gl.bindTexture(gl.TEXTURE_2D, this.atlasTexture);
+    if (this.atlasDirty) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.atlas);
+      this.atlasDirty = false;
+    }
+
+    gl.useProgram(this.circleProgram);
+    gl.uniform2f(gl.getUniformLocation(this.circleProgram, 'u_resolution'), scene.width, scene.height);
+    gl.uniform3f(gl.getUniformLocation(this.circleProgram, 'u_viewport'), viewport.x, viewport.y, viewport.k);
+    gl.uniform1f(gl.getUniformLocation(this.circleProgram, 'u_atlasColumns'), ATLAS_COLUMNS);
+    gl.uniform1i(gl.getUniformLocation(this.circleProgram, 'u_atlas'), 0);
+    gl.bindVertexArray(this.circleVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.instances.subarray(0, scene.nodes.length * NODE_STRIDE), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, scene.nodes.length);
+    gl.bindVertexArray(null);
+
+    // Labels are text, drawn on the 2D overlay
+    this.labels.clearRect(0, 0, scene.width, scene.height);
+    for (const node of scene.nodes) {
+      if (showsLabel(node, scene, pathNodes)) {
+        drawLabel(this.labels, node, viewport);
+      }
+    }
+  }
+
+  dispose(): void {
+    const { gl } = this;
+    gl.deleteProgram(this.circleProgram);
+    gl.deleteProgram(this.lineProgram);
+    gl.deleteVertexArray(this.circleVao);
+    gl.deleteVertexArray(this.lineVao);
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteBuffer(this.instanceBuffer);
+    gl.deleteBuffer(this.lineBuffer);
+    gl.deleteTexture(this.atlasTexture);
+  }
+}
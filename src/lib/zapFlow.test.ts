@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { collectZapFlows, getZapAmount, parseZapReceipt, zapLeaderboards } from './zapFlow';
+
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+const CAROL = 'c'.repeat(64);
+
+// A 21 sat invoice; only the human-readable prefix is decoded
+const BOLT11_21_SATS = 'lnbc210n1' + 'q'.repeat(60);
+
+let nextId = 0;
+function receipt(tags: string[][]): NostrEvent {
+  return { id: String(nextId++), pubkey: 'f'.repeat(64), created_at: 0, kind: 9735, tags, content: '', sig: 'sig' };
+}
+
+function zapRequest(pubkey: string, millisats: number): string {
+  return JSON.stringify({ kind: 9734, pubkey, tags: [['amount', String(millisats)]], content: '' });
+}
+
+describe('getZapAmount', () => {
+  it('prefers the bolt11 invoice', () => {
+    expect(getZapAmount(receipt([['bolt11', BOLT11_21_SATS], ['description', zapRequest(ALICE, 5000)]]))).toBe(21);
+  });
+
+  it('falls back to the zap request amount', () => {
+    expect(getZapAmount(receipt([['bolt11', 'garbage'], ['description', zapRequest(ALICE, 5000)]]))).toBe(5);
+    expect(getZapAmount(receipt([['description', '{not json']]))).toBe(0);
+  });
+});
+
+describe('parseZapReceipt', () => {
+  it('reads the sender from the P tag or the zap request', () => {
+    expect(parseZapReceipt(receipt([['p', BOB], ['P', ALICE], ['bolt11', BOLT11_21_SATS]])))
+      .toEqual({ sender: ALICE, recipient: BOB, sats: 21 });
+    expect(parseZapReceipt(receipt([['p', BOB], ['description', zapRequest(CAROL, 1000)]])))
+      .toEqual({ sender: CAROL, recipient: BOB, sats: 1 });
+  });
+
+  it('rejects receipts without parties or amount', () => {
+    expect(parseZapReceipt(receipt([['P', ALICE], ['bolt11', BOLT11_21_SATS]]))).toBeNull();
+    expect(parseZapReceipt(receipt([['p', BOB], ['P', ALICE]]))).toBeNull();
+  });
+});
+
+describe('collectZapFlows', () => {
+  it('sums sats per direction and ranks the leaderboards', () => {
+    const duplicate = receipt([['p', BOB], ['P', ALICE], ['bolt11', BOLT11_21_SATS]]);
+    const edges = collectZapFlows([
+      duplicate,
+      duplicate,
+      receipt([['p', BOB], ['P', ALICE], ['description', zapRequest(ALICE, 9000)]]),
+      receipt([['p', ALICE], ['P', BOB], ['bolt11', BOLT11_21_SATS]]),
+      receipt([['p', BOB], ['P', CAROL], ['description', zapRequest(CAROL, 100000)]]),
+      receipt([['p', CAROL], ['P', CAROL], ['bolt11', BOLT11_21_SATS]]),
+    ]);
+
+    expect(edges).toHaveLength(3);
+    expect(edges.find(e => e.source === ALICE && e.target === BOB)).toMatchObject({ sats: 30, count: 2 });
+
+    const { zappers, recipients } = zapLeaderboards(edges, 2);
+    expect(zappers.map(entry => entry.pubkey)).toEqual([CAROL, ALICE]);
+    expect(recipients[0]).toEqual({ pubkey: BOB, sats: 130, count: 3 });
+    expect(recipients).toHaveLength(2);
+  });
+});
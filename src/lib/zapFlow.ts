@@ -0,0 +1,127 @@
+// Value flow between pubkeys from zap receipts (NIP-57)
+
+import { nip57 } from 'nostr-tools';
+import type { NostrEvent } from '@nostrify/nostrify';
+
+export interface ZapFlow {
+  sender: string;
+  recipient: string;
+  sats: number;
+}
+
+export interface ZapFlowEdge {
+  source: string;
+  target: string;
+  /** Total sats zapped from source to target */
+  sats: number;
+  count: number;
+}
+
+export interface ZapLeaderboardEntry {
+  pubkey: string;
+  sats: number;
+  count: number;
+}
+
+export interface ZapLeaderboards {
+  zappers: ZapLeaderboardEntry[];
+  recipients: ZapLeaderboardEntry[];
+}
+
+const PUBKEY_PATTERN = /^[0-9a-f]{64}$/;
+
+function getTag(tags: string[][], name: string): string | undefined {
+  return tags.find(([tagName]) => tagName === name)?.[1];
+}
+
+function parseZapRequest(receipt: NostrEvent): NostrEvent | undefined {
+  const description = getTag(receipt.tags, 'description');
+  if (!description) return undefined;
+
+  try {
+    const request = JSON.parse(description);
+    return request && Array.isArray(request.tags) ? request : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Amount of a zap receipt in sats, read from the bolt11 invoice that was paid
+ * or, failing that, the amount in millisats asked for by the zap request.
+ * Returns 0 when neither is readable.
+ */
+export function getZapAmount(receipt: NostrEvent): number {
+  const bolt11 = getTag(receipt.tags, 'bolt11');
+  if (bolt11) {
+    try {
+      const sats = nip57.getSatoshisAmountFromBolt11(bolt11);
+      if (sats > 0) return sats;
+    } catch {
+      // Fall through to the zap request
+    }
+  }
+
+  const amount = parseInt(getTag(parseZapRequest(receipt)?.tags ?? [], 'amount') ?? '');
+  return Number.isFinite(amount) && amount > 0 ? Math.floor(amount / 1000) : 0;
+}
+
+/**
+ * Who paid whom and how much. The recipient is the receipt's `p` tag; the
+ * sender is its `P` tag or the author of the embedded zap request.
+ */
+export function parseZapReceipt(receipt: NostrEvent): ZapFlow | null {
+  if (receipt.kind !== 9735) return null;
+
+  const recipient = getTag(receipt.tags, 'p');
+  const sender = getTag(receipt.tags, 'P') ?? parseZapRequest(receipt)?.pubkey;
+  if (!recipient || !sender || !PUBKEY_PATTERN.test(recipient) || !PUBKEY_PATTERN.test(sender)) {
+    return null;
+  }
+
+  const sats = getZapAmount(receipt);
+  return sats > 0 ? { sender, recipient, sats } : null;
+}
+
+/** Sum zaps per sender and recipient pair; self-zaps are skipped */
+export function collectZapFlows(receipts: NostrEvent[]): ZapFlowEdge[] {
+  const edges = new Map<string, ZapFlowEdge>();
+  const seen = new Set<string>();
+
+  for (const receipt of receipts) {
+    if (seen.has(receipt.id)) continue;
+    seen.add(receipt.id);
+
+    const flow = parseZapReceipt(receipt);
+    if (!flow || flow.sender === flow.recipient) continue;
+
+    const key = `${flow.sender}:${flow.recipient}`;
+    const edge = edges.get(key) ?? { source: flow.sender, target: flow.recipient, sats: 0, count: 0 };
+    edge.sats += flow.sats;
+    edge.count++;
+    edges.set(key, edge);
+  }
+
+  return [...edges.values()];
+}
+
+function rank(totals: Map<string, ZapLeaderboardEntry>, top: number): ZapLeaderboardEntry[] {
+  return [...totals.values()].sort((a, b) => b.sats - a.sats || b.count - a.count).slice(0, top);
+}
+
+/** Top senders and top recipients by total sats */
+export function zapLeaderboards(edges: ZapFlowEdge[], top = 10): ZapLeaderboards {
+  const sent = new Map<string, ZapLeaderboardEntry>();
+  const received = new Map<string, ZapLeaderboardEntry>();
+
+  for (const edge of edges) {
+    for (const [totals, pubkey] of [[sent, edge.source], [received, edge.target]] as const) {
+      const entry = totals.get(pubkey) ?? { pubkey, sats: 0, count: 0 };
+      entry.sats += edge.sats;
+      entry.count += edge.count;
+      totals.set(pubkey, entry);
+    }
+  }
+
+  return { zappers: rank(sent, top), recipients: rank(received, top) };
+}
@@ -1,43 +1,356 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { nip19 } from 'nostr-tools';
 import { GraphVisualization, GraphVisualizationSkeleton } from '@/components/GraphVisualization';
-import { useSocialGraph } from '@/hooks/useSocialGraph';
+import { ClusterPanel } from '@/components/graph/ClusterPanel';
+import { ExportMenu } from '@/components/graph/ExportMenu';
+import { FollowChangesPanel } from '@/components/graph/FollowChangesPanel';
+import { FollowTimelineCard } from '@/components/graph/FollowTimelineCard';
+import { ImportGraphButton } from '@/components/graph/ImportGraphButton';
+import { NodeActionsCard } from '@/components/graph/NodeActionsCard';
+import { CrawlProgressBar } from '@/components/graph/CrawlProgressBar';
+import { MetricsPanel } from '@/components/graph/MetricsPanel';
+import { PathResultsCard } from '@/components/graph/PathResultsCard';
+import { TopicUsersCard } from '@/components/graph/TopicUsersCard';
+import { RelayCoveragePanel } from '@/components/graph/RelayCoveragePanel';
+import { RelayOverlapPanel } from '@/components/graph/RelayOverlapPanel';
+import { ZapLeaderboardCard } from '@/components/graph/ZapLeaderboardCard';
+import { useSocialGraph, type GraphDirection } from '@/hooks/useSocialGraph';
+import { usePathFinder } from '@/hooks/usePathFinder';
+import { useFollowHistory } from '@/hooks/useFollowHistory';
+import { useInteractionGraph } from '@/hooks/useInteractionGraph';
+import { useZapFlowGraph } from '@/hooks/useZapFlowGraph';
+import { useTopicGraph } from '@/hooks/useTopicGraph';
+import { useRelayOverlapGraph } from '@/hooks/useRelayOverlapGraph';
+import { useFollowSnapshots } from '@/hooks/useFollowSnapshots';
+import { useGraphMetrics } from '@/hooks/useGraphMetrics';
+import { useNodeExpansion } from '@/hooks/useNodeExpansion';
 import { useCurrentUser } from '@/hooks/useCurrentUser';
+import { useGraphCache } from '@/hooks/useGraphCache';
+import { useToast } from '@/hooks/useToast';
 import { LoginArea } from '@/components/auth/LoginArea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import type { GraphNode } from '@/lib/forceGraph';
-import { Network, User, Users, Settings } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { GraphData, GraphNode } from '@/lib/forceGraph';
+import { summarizeCommunities } from '@/lib/communityDetection';
+import { NODE_METRIC_LABELS, type NodeMetric } from '@/lib/graphMetrics';
+import type { ExportableGraph } from '@/lib/graphExport';
+import type { ImportedGraph } from '@/lib/graphImport';
+import { mergeExpansions } from '@/lib/graphExpansion';
+import { LAYOUT_LABELS, type LayoutKind } from '@/lib/graphLayouts';
+import { isHexPubkey, parseProfileInput, parsePubkeyInput } from '@/lib/parsePubkey';
+import { graphUrlStateToParams, parseGraphUrlState } from '@/lib/graphUrlState';
+import { trustColor } from '@/lib/trustScore';
+import { Network, User, Users, Settings, Loader2, Trash2, Route, FileUp } from 'lucide-react';
+
+type ExplorerMode = 'all' | 'user' | 'path';
+// What a user's graph is built from
+type GraphSource = 'follows' | 'interactions' | 'zaps' | 'topics' | 'relays';
+type ColorBy = 'cluster' | 'trust';
+// 'default' keeps the radius chosen by the crawl (trust-based for a root user)
+type SizeBy = 'default' | NodeMetric;
+
+// Radius range for metric-based node sizes
+const MIN_METRIC_RADIUS = 6;
+const MAX_METRIC_RADIUS = 24;
+
+// Time windows, in days, for graphs built from recent events
+const INTERACTION_WINDOWS = [7, 30, 90];
+
+// How to read the graph, per source
+const SOURCE_TIPS: Record<GraphSource, string[]> = {
+  follows: [
+    'Click nodes to expand their follows',
+    'Dashed rings mark expanded nodes',
+    'Purple nodes are root users',
+    'Bigger nodes are more trusted by the root',
+    'Colors mark communities',
+    'Green lines are mutual follows',
+    'Dashed red lines are mutes',
+  ],
+  interactions: [
+    'Click nodes for more actions',
+    'Purple nodes are root users',
+    'Bigger nodes interact more with the root',
+    'Colors mark communities',
+    'Thicker lines mean more interactions',
+  ],
+  zaps: [
+    'Click nodes for more actions',
+    'Purple nodes are root users',
+    'Bigger nodes send and receive more sats',
+    'Colors mark communities',
+    'Thicker lines carry more sats',
+  ],
+  topics: [
+    'Click hashtags to see who uses them',
+    'Bigger nodes are used more often',
+    'Colors mark related topics',
+    'Thicker lines link tags often used together',
+  ],
+  relays: [
+    'Small gray nodes are users',
+    'Bigger relays are listed by more users',
+    'Amber relays are recommended',
+  ],
+};
+
+const formatCacheAge = (timestamp: number | null) => {
+  if (!timestamp) return 'Never';
+  const diffMins = Math.floor((Date.now() / 1000 - timestamp) / 60);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffMins < 1440) return `${Math.floor(diffMins / 60)}h ago`;
+  return new Date(timestamp * 1000).toLocaleDateString();
+};
 
 export default function SocialGraph() {
   const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const { nip19: nip19Segment } = useParams<{ nip19: string }>();
   const { user } = useCurrentUser();
+  const { toast } = useToast();
+  const { info: cacheInfo, clearCache, isClearing } = useGraphCache();
+
+  // Explorer state restored from the URL when the page loads
+  const [initialState] = useState(() => parseGraphUrlState(searchParams, nip19Segment));
 
   // Graph configuration state
-  const [mode, setMode] = useState<'all' | 'user'>('all');
-  const [rootPubkey, setRootPubkey] = useState<string | undefined>(undefined);
-  const [npubInput, setNpubInput] = useState('');
-  const [depth, setDepth] = useState(2);
-  const [limit, setLimit] = useState(100);
+  const [mode, setMode] = useState<ExplorerMode>(initialState.mode);
+  const [rootPubkey, setRootPubkey] = useState<string | undefined>(initialState.root?.pubkey);
+  const [rootRelays, setRootRelays] = useState<string[]>(initialState.root?.relays ?? []);
+  const [npubInput, setNpubInput] = useState(
+    initialState.root ? nip19.npubEncode(initialState.root.pubkey) : ''
+  );
+  const [depth, setDepth] = useState(initialState.depth);
+  const [direction, setDirection] = useState<GraphDirection>(initialState.direction);
+  const [limit, setLimit] = useState(initialState.limit);
+  const [source, setSource] = useState<GraphSource>('follows');
+  const [interactionDays, setInteractionDays] = useState(30);
   const [error, setError] = useState<string | null>(null);
 
+  // Path finder state
+  const [pathFromInput, setPathFromInput] = useState(
+    initialState.from ? nip19.npubEncode(initialState.from) : ''
+  );
+  const [pathToInput, setPathToInput] = useState(initialState.to ? nip19.npubEncode(initialState.to) : '');
+  const [pathEnds, setPathEnds] = useState<{ from: string; to: string } | null>(
+    initialState.from && initialState.to ? { from: initialState.from, to: initialState.to } : null
+  );
+  const [selectedPath, setSelectedPath] = useState(0);
+
+  // A graph loaded from a file replaces live data until it is closed
+  const [imported, setImported] = useState<{ name: string; graph: ImportedGraph } | null>(null);
+  const isImported = imported !== null;
+
+  // Follow history state; undefined shows the newest contact list
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyAt, setHistoryAt] = useState<number | undefined>(undefined);
+  // Sources other than follows need a root user
+  const activeSource: GraphSource = mode === 'user' && !!rootPubkey && !isImported ? source : 'follows';
+  const interactionMode = activeSource === 'interactions';
+  const zapMode = activeSource === 'zaps';
+  const topicMode = activeSource === 'topics';
+  const relayMode = activeSource === 'relays';
+  // Sources built on top of the follow crawl
+  const usesCrawl = activeSource === 'follows' || topicMode || relayMode;
+  const historyMode = mode === 'user' && activeSource === 'follows' && showHistory && !!rootPubkey && !isImported;
+  // The live follow crawl drives the graph, or picks the authors of the topic graph
+  const followCrawl = mode !== 'path' && !historyMode && usesCrawl && !isImported;
+
   // Fetch graph data
-  const { data, isLoading, isError } = useSocialGraph({
+  const socialGraph = useSocialGraph({
     rootPubkey: mode === 'user' ? rootPubkey : undefined,
     depth,
+    direction,
+    limit,
+    relayHints: mode === 'user' ? rootRelays : undefined,
+    enabled: followCrawl,
+  });
+
+  const interactionGraph = useInteractionGraph({
+    rootPubkey,
+    days: interactionDays,
     limit,
+    enabled: interactionMode,
   });
 
+  const zapFlowGraph = useZapFlowGraph({
+    rootPubkey,
+    days: interactionDays,
+    limit,
+    enabled: zapMode,
+  });
+
+  // Topics and relays come from the members of the finished follow crawl
+  const crawledMembers = socialGraph.isFetching ? undefined : socialGraph.data?.nodes;
+  const topicAuthors = useMemo(() => crawledMembers?.map(node => node.id), [crawledMembers]);
+  const topicGraph = useTopicGraph({
+    authors: topicAuthors,
+    days: interactionDays,
+    limit,
+    enabled: topicMode,
+  });
+
+  const relayOverlapGraph = useRelayOverlapGraph({
+    rootPubkey,
+    members: crawledMembers,
+    enabled: relayMode,
+  });
+
+  // Keep the URL in sync so the current view can be shared
+  useEffect(() => {
+    const search = graphUrlStateToParams({
+      mode,
+      root: rootPubkey ? { pubkey: rootPubkey, relays: rootRelays } : undefined,
+      depth,
+      limit,
+      direction,
+      from: pathEnds?.from,
+      to: pathEnds?.to,
+    }).toString();
+
+    if (location.pathname !== '/graph' || location.search !== `?${search}`) {
+      navigate({ pathname: '/graph', search }, { replace: true });
+    }
+  }, [mode, rootPubkey, rootRelays, depth, limit, direction, pathEnds, location.pathname, location.search, navigate]);
+
+  const followHistory = useFollowHistory(historyMode ? rootPubkey : undefined, historyAt);
+  const followSnapshots = useFollowSnapshots(mode === 'user' && !isImported ? rootPubkey : undefined);
+
+  const pathFinder = usePathFinder(
+    mode === 'path' && !isImported ? pathEnds?.from : undefined,
+    mode === 'path' && !isImported ? pathEnds?.to : undefined,
+  );
+
+  const { data: baseData, isLoading, isError } = imported
+    ? { data: imported.graph, isLoading: false, isError: false }
+    : mode === 'path'
+    ? pathFinder
+    : historyMode
+      ? { ...followHistory, data: followHistory.graph }
+      : interactionMode
+        ? interactionGraph
+        : zapMode
+          ? zapFlowGraph
+          : topicMode
+            ? { ...topicGraph, isLoading: topicGraph.isLoading || socialGraph.isFetching }
+            : relayMode
+              ? { ...relayOverlapGraph, isLoading: relayOverlapGraph.isLoading || socialGraph.isFetching }
+              : socialGraph;
+  const isCrawling = followCrawl && socialGraph.isFetching;
+
+  // Nodes expanded in place on click, merged on top of the loaded graph
+  const { expansions, pending, expand, collapse, reset: resetExpansions } = useNodeExpansion();
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+
+  const data = useMemo<typeof baseData>(
+    () => (baseData ? mergeExpansions(baseData, expansions) : undefined),
+    [baseData, expansions]
+  );
+
+  // Expansions belong to the view they were made in
+  useEffect(() => {
+    resetExpansions();
+    setSelectedNodeId(null);
+  }, [mode, rootPubkey, historyMode, activeSource, imported, resetExpansions]);
+
+  // Display state
+  const [colorBy, setColorBy] = useState<ColorBy>('cluster');
+  const [sizeBy, setSizeBy] = useState<SizeBy>('default');
+  const [layout, setLayout] = useState<LayoutKind>('force');
+  const [hiddenClusters, setHiddenClusters] = useState<Set<number>>(new Set());
+  const [isolatedCluster, setIsolatedCluster] = useState<number | null>(null);
+
+  // Cluster ids are only meaningful for the graph they were computed on
+  useEffect(() => {
+    setHiddenClusters(new Set());
+    setIsolatedCluster(null);
+  }, [baseData]);
+
+  const clusters = useMemo(() => (data ? summarizeCommunities(data) : []), [data]);
+
+  // Metrics are computed off the main thread, and only once the crawl has settled; paths aren't measured
+  const metrics = useGraphMetrics(mode !== 'path' || isImported ? data : undefined, !isCrawling);
+
+  // Apply cluster visibility and node coloring to the crawled graph
+  const displayData = useMemo<GraphData | undefined>(() => {
+    if (!data) return undefined;
+
+    const trustScores = 'trustScores' in data ? data.trustScores : undefined;
+
+    // Scale radii against the largest value of the chosen metric
+    const metricMax = metrics && sizeBy !== 'default'
+      ? Math.max(0, ...[...metrics.nodes.values()].map(m => m[sizeBy]))
+      : 0;
+
+    const nodes = data.nodes
+      .filter(node =>
+        node.cluster === undefined ||
+        (!hiddenClusters.has(node.cluster) && (isolatedCluster === null || node.cluster === isolatedCluster))
+      )
+      .map(node => {
+        const trust = trustScores?.get(node.id);
+        const nodeMetrics = metrics?.nodes.get(node.id);
+        return {
+          ...node,
+          color: colorBy === 'trust' && trust !== undefined && !node.isRoot ? trustColor(trust) : node.color,
+          radius: sizeBy !== 'default' && nodeMetrics
+            ? MIN_METRIC_RADIUS + (metricMax > 0 ? nodeMetrics[sizeBy] / metricMax : 0) * (MAX_METRIC_RADIUS - MIN_METRIC_RADIUS)
+            : node.radius,
+        };
+      });
+
+    const visible = new Set(nodes.map(node => node.id));
+    const links = data.links.filter(link => visible.has(link.source) && visible.has(link.target));
+
+    return { nodes, links };
+  }, [data, metrics, colorBy, sizeBy, hiddenClusters, isolatedCluster]);
+
+  // The graph as displayed, with everything the exporters can attach to nodes
+  const exportGraph = useMemo<ExportableGraph | undefined>(() => {
+    if (!data || !displayData) return undefined;
+
+    return {
+      data: displayData,
+      profiles: 'profiles' in data ? data.profiles : undefined,
+      trustScores: 'trustScores' in data ? data.trustScores : undefined,
+      metrics: metrics?.nodes,
+    };
+  }, [data, displayData, metrics]);
+
+  const handleToggleHidden = (id: number) => {
+    setHiddenClusters(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleIsolated = (id: number) => {
+    setIsolatedCluster(prev => (prev === id ? null : id));
+  };
+
   // Handle "Use My Profile" button
   const handleUseMyProfile = () => {
     if (user) {
       setRootPubkey(user.pubkey);
+      setRootRelays([]);
+      setHistoryAt(undefined);
       setMode('user');
       setError(null);
     }
@@ -48,53 +361,92 @@ export default function SocialGraph() {
     e.preventDefault();
     setError(null);
 
-    if (!npubInput.trim()) {
-      setError('Please enter an npub or hex pubkey');
-      return;
+    try {
+      const profile = parseProfileInput(npubInput);
+      setRootPubkey(profile.pubkey);
+      setRootRelays(profile.relays);
+      setHistoryAt(undefined);
+      setMode('user');
+    } catch (err) {
+      setError((err as Error).message);
     }
+  };
+
+  // Handle path finder inputs
+  const handlePathSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
 
     try {
-      let pubkey: string;
-
-      // Try to decode as npub
-      if (npubInput.startsWith('npub1')) {
-        const decoded = nip19.decode(npubInput.trim());
-        if (decoded.type !== 'npub') {
-          setError('Invalid npub format');
-          return;
-        }
-        pubkey = decoded.data;
-      } else if (npubInput.startsWith('nprofile1')) {
-        const decoded = nip19.decode(npubInput.trim());
-        if (decoded.type !== 'nprofile') {
-          setError('Invalid nprofile format');
-          return;
-        }
-        pubkey = decoded.data.pubkey;
-      } else {
-        // Assume hex pubkey
-        pubkey = npubInput.trim();
-      }
+      const from = parsePubkeyInput(pathFromInput);
+      const to = parsePubkeyInput(pathToInput);
+      setPathEnds({ from, to });
+      setSelectedPath(0);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
 
-      setRootPubkey(pubkey);
-      setMode('user');
-    } catch {
-      setError('Invalid npub or hex pubkey');
+  // Handle "Clear graph cache" button
+  const handleClearCache = async () => {
+    try {
+      await clearCache();
+      toast({
+        title: 'Graph cache cleared',
+        description: 'Refetching contact lists from relays...',
+      });
+    } catch (error) {
+      console.error('Error clearing graph cache:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to clear graph cache. Please try again.',
+        variant: 'destructive',
+      });
     }
   };
 
-  // Handle node click
+  // Handle node click: select the node and grow the graph with its follows
   const handleNodeClick = (node: GraphNode) => {
-    const npub = nip19.npubEncode(node.id);
-    navigate(`/${npub}`);
+    // Relay nodes have no actions
+    if (relayMode && !crawledMembers?.some(member => member.id === node.id)) return;
+
+    setSelectedNodeId(node.id);
+    // Follows would muddle the other sources, so only expand on request there.
+    // Imported graphs never touch relays
+    if (!node.expanded && activeSource === 'follows' && !isImported) {
+      handleExpand(node.id);
+    }
   };
 
+  const handleExpand = async (pubkey: string) => {
+    try {
+      await expand(pubkey);
+    } catch (error) {
+      console.error('Error expanding node:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load follows for this user. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const selectedNode = data?.nodes.find(node => node.id === selectedNodeId);
+
+  const followLinks = data ? data.links.filter(link => link.type !== 'muted').length : 0;
+  const mutualLinks = data ? data.links.filter(link => link.type === 'mutual').length : 0;
+
   const stats = data
     ? {
         nodes: data.nodes.length,
-        connections: data.links.length,
+        connections: followLinks,
+        mutes: data.links.length - followLinks,
+        // Share of follow edges that are followed back
+        reciprocity: followLinks > 0 ? mutualLinks / followLinks : 0,
+        // Interaction count or sats, depending on the source
+        totalWeight: data.links.reduce((sum, link) => sum + (link.weight ?? 0), 0),
       }
-    : { nodes: 0, connections: 0 };
+    : { nodes: 0, connections: 0, mutes: 0, reciprocity: 0, totalWeight: 0 };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-violet-50 via-purple-50 to-indigo-50 dark:from-slate-950 dark:via-purple-950 dark:to-slate-900">
@@ -136,8 +488,8 @@ export default function SocialGraph() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <Tabs value={mode} onValueChange={(v) => setMode(v as 'all' | 'user')}>
-                  <TabsList className="grid w-full grid-cols-2">
+                <Tabs value={mode} onValueChange={(v) => setMode(v as ExplorerMode)}>
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="all" className="flex items-center gap-1">
                       <Users className="h-4 w-4" />
                       All
@@ -146,6 +498,10 @@ export default function SocialGraph() {
                       <User className="h-4 w-4" />
                       User
                     </TabsTrigger>
+                    <TabsTrigger value="path" className="flex items-center gap-1">
+                      <Route className="h-4 w-4" />
+                      Path
+                    </TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="all" className="space-y-4">
@@ -181,6 +537,55 @@ export default function SocialGraph() {
                       </Button>
                     </form>
 
+                    {source === 'follows' && (
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="follow-history">Replay follow history</Label>
+                        <Switch
+                          id="follow-history"
+                          checked={showHistory}
+                          onCheckedChange={setShowHistory}
+                        />
+                      </div>
+                    )}
+
+                    {error && (
+                      <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                      </Alert>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="path" className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      Find the shortest follow paths from one user to another.
+                    </p>
+
+                    <form onSubmit={handlePathSubmit} className="space-y-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="path-from">From</Label>
+                        <Input
+                          id="path-from"
+                          value={pathFromInput}
+                          onChange={(e) => setPathFromInput(e.target.value)}
+                          placeholder="npub1... or hex pubkey"
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="path-to">To</Label>
+                        <Input
+                          id="path-to"
+                          value={pathToInput}
+                          onChange={(e) => setPathToInput(e.target.value)}
+                          placeholder="npub1... or hex pubkey"
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                      <Button type="submit" className="w-full">
+                        Find Path
+                      </Button>
+                    </form>
+
                     {error && (
                       <Alert variant="destructive">
                         <AlertDescription>{error}</AlertDescription>
@@ -188,52 +593,279 @@ export default function SocialGraph() {
                     )}
                   </TabsContent>
                 </Tabs>
+
+                <ImportGraphButton onImport={(name, graph) => setImported({ name, graph })} />
               </CardContent>
             </Card>
 
+            {/* Path Results */}
+            {mode === 'path' && pathFinder.data && (
+              <PathResultsCard
+                result={pathFinder.data}
+                profiles={pathFinder.data.profiles}
+                selectedIndex={selectedPath}
+                onSelect={setSelectedPath}
+              />
+            )}
+
+            {/* Follow History */}
+            {historyMode && followHistory.data && (
+              <FollowTimelineCard
+                history={followHistory.data.history}
+                profiles={followHistory.data.profiles}
+                at={historyAt}
+                onAtChange={setHistoryAt}
+              />
+            )}
+
+            {/* Zap leaderboard */}
+            {zapMode && zapFlowGraph.data && (
+              <ZapLeaderboardCard
+                leaderboards={zapFlowGraph.data.leaderboards}
+                profiles={zapFlowGraph.data.profiles}
+                onSelect={setSelectedNodeId}
+              />
+            )}
+
+            {/* Relay overlap */}
+            {relayMode && relayOverlapGraph.data && (
+              <RelayOverlapPanel
+                usage={relayOverlapGraph.data.usage}
+                recommendation={relayOverlapGraph.data.recommendation}
+                members={crawledMembers?.length ?? 0}
+              />
+            )}
+
+            {/* Follow changes between visits */}
+            {mode === 'user' && followSnapshots.data && (
+              <FollowChangesPanel
+                snapshot={followSnapshots.data.snapshot}
+                previousSnapshots={followSnapshots.data.previousSnapshots}
+              />
+            )}
+
             {/* Graph Parameters */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-base">Parameters</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <Label>Depth</Label>
-                    <span className="text-sm text-muted-foreground">{depth}</span>
+            {mode !== 'path' && !historyMode && !isImported && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Parameters</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {mode === 'user' && (
+                    <div className="space-y-2">
+                      <Label>Graph source</Label>
+                      <ToggleGroup
+                        type="single"
+                        value={source}
+                        onValueChange={(value) => {
+                          if (value) {
+                            setSource(value as GraphSource);
+                          }
+                        }}
+                        className="grid grid-cols-2 gap-1 w-full"
+                      >
+                        <ToggleGroupItem value="follows" className="text-xs px-1">
+                          Follows
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="interactions" className="text-xs px-1">
+                          Interactions
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="zaps" className="text-xs px-1">
+                          Zaps
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="topics" className="text-xs px-1">
+                          Topics
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="relays" className="text-xs px-1">
+                          Relays
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                      <p className="text-xs text-muted-foreground">
+                        Follow lists; replies, mentions, reactions and reposts; sats zapped;
+                        hashtags used by the crawled users; or the relays they list
+                      </p>
+                    </div>
+                  )}
+
+                  {(interactionMode || zapMode || topicMode) && (
+                    <div className="space-y-2">
+                      <Label>Time window</Label>
+                      <Select
+                        value={String(interactionDays)}
+                        onValueChange={(value) => setInteractionDays(Number(value))}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INTERACTION_WINDOWS.map(days => (
+                            <SelectItem key={days} value={String(days)} className="text-xs">
+                              Last {days} days
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {mode === 'user' && usesCrawl && (
+                    <div className="space-y-2">
+                      <Label>Direction</Label>
+                      <ToggleGroup
+                        type="single"
+                        value={direction}
+                        onValueChange={(value) => {
+                          if (value) {
+                            setDirection(value as GraphDirection);
+                          }
+                        }}
+                        className="grid grid-cols-3 gap-1 w-full"
+                      >
+                        <ToggleGroupItem value="following" className="text-xs px-1">
+                          Following
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="followers" className="text-xs px-1">
+                          Followers
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="both" className="text-xs px-1">
+                          Both
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                      <p className="text-xs text-muted-foreground">
+                        Who the user follows, who follows them, or both
+                      </p>
+                    </div>
+                  )}
+
+                  {usesCrawl && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label>Depth</Label>
+                        <span className="text-sm text-muted-foreground">{depth}</span>
+                      </div>
+                      <Slider
+                        value={[depth]}
+                        onValueChange={(v) => setDepth(v[0])}
+                        min={1}
+                        max={3}
+                        step={1}
+                        className="w-full"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        How many levels of connections to fetch
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Max Nodes</Label>
+                      <span className="text-sm text-muted-foreground">{limit}</span>
+                    </div>
+                    <Slider
+                      value={[limit]}
+                      onValueChange={(v) => setLimit(v[0])}
+                      min={20}
+                      max={5000}
+                      step={20}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Maximum number of nodes to display
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Display */}
+            {mode !== 'path' && data && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Display</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Layout</Label>
+                    <Select value={layout} onValueChange={(value) => setLayout(value as LayoutKind)}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(LAYOUT_LABELS) as LayoutKind[]).map(kind => (
+                          <SelectItem key={kind} value={kind} className="text-xs">
+                            {LAYOUT_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-                  <Slider
-                    value={[depth]}
-                    onValueChange={(v) => setDepth(v[0])}
-                    min={1}
-                    max={3}
-                    step={1}
-                    className="w-full"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    How many levels of connections to fetch
-                  </p>
-                </div>
-
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <Label>Max Nodes</Label>
-                    <span className="text-sm text-muted-foreground">{limit}</span>
+
+                  {mode === 'user' && activeSource === 'follows' && (
+                    <div className="space-y-2">
+                      <Label>Color nodes by</Label>
+                      <ToggleGroup
+                        type="single"
+                        value={colorBy}
+                        onValueChange={(value) => {
+                          if (value) {
+                            setColorBy(value as ColorBy);
+                          }
+                        }}
+                        className="grid grid-cols-2 gap-1 w-full"
+                      >
+                        <ToggleGroupItem value="cluster" className="text-xs px-1">
+                          Community
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="trust" className="text-xs px-1">
+                          Trust
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label>Size nodes by</Label>
+                    <Select value={sizeBy} onValueChange={(value) => setSizeBy(value as SizeBy)}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default" className="text-xs">
+                          {mode === 'user' && activeSource === 'follows' ? 'Trust' : 'Default'}
+                        </SelectItem>
+                        {(Object.keys(NODE_METRIC_LABELS) as NodeMetric[]).map(metric => (
+                          <SelectItem key={metric} value={metric} className="text-xs">
+                            {NODE_METRIC_LABELS[metric]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-                  <Slider
-                    value={[limit]}
-                    onValueChange={(v) => setLimit(v[0])}
-                    min={20}
-                    max={200}
-                    step={20}
-                    className="w-full"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Maximum number of nodes to display
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Communities */}
+            {mode !== 'path' && clusters.length > 0 && (
+              <ClusterPanel
+                clusters={clusters}
+                hiddenClusters={hiddenClusters}
+                isolatedCluster={isolatedCluster}
+                onToggleHidden={handleToggleHidden}
+                onToggleIsolated={handleToggleIsolated}
+              />
+            )}
+
+            {/* Metrics */}
+            {metrics && data && data.nodes.length > 0 && (
+              <MetricsPanel metrics={metrics} nodes={data.nodes} />
+            )}
+
+            {/* Relay coverage */}
+            {followCrawl && socialGraph.data && socialGraph.data.coverage.total > 0 && (
+              <RelayCoveragePanel coverage={socialGraph.data.coverage} />
+            )}
 
             {/* Stats */}
             {data && (
@@ -250,16 +882,98 @@ export default function SocialGraph() {
                     <span className="text-sm text-muted-foreground">Connections</span>
                     <span className="font-semibold">{stats.connections}</span>
                   </div>
+                  {relayMode && relayOverlapGraph.data ? (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Relays</span>
+                      <span className="font-semibold">{relayOverlapGraph.data.usage.length}</span>
+                    </div>
+                  ) : interactionMode || zapMode || topicMode ? (
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">
+                        {zapMode ? 'Sats zapped' : topicMode ? 'Co-occurrences' : 'Interactions'}
+                      </span>
+                      <span className="font-semibold">{stats.totalWeight.toLocaleString()}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-muted-foreground">Reciprocity</span>
+                        <span className="font-semibold">{(stats.reciprocity * 100).toFixed(1)}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-muted-foreground">Mutes</span>
+                        <span className="font-semibold">{stats.mutes}</span>
+                      </div>
+                    </>
+                  )}
+                  {cacheInfo && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-muted-foreground">Cached lists</span>
+                        <span className="font-semibold">{cacheInfo.contactLists}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-muted-foreground">Cache updated</span>
+                        <span className="font-semibold">{formatCacheAge(cacheInfo.lastUpdated)}</span>
+                      </div>
+                    </>
+                  )}
+                  {exportGraph && exportGraph.data.nodes.length > 0 && (
+                    <div className="pt-2">
+                      <ExportMenu graph={exportGraph} />
+                    </div>
+                  )}
+                  <Button
+                    onClick={handleClearCache}
+                    disabled={isClearing}
+                    variant="outline"
+                    size="sm"
+                    className="w-full mt-2"
+                  >
+                    {isClearing ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="mr-2 h-4 w-4" />
+                    )}
+                    Clear graph cache
+                  </Button>
                 </CardContent>
               </Card>
             )}
           </div>
 
           {/* Graph Visualization */}
-          <div className="lg:col-span-3">
+          <div className="lg:col-span-3 space-y-4">
+            {imported && (
+              <Alert>
+                <FileUp className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-4">
+                  <span>
+                    Showing an imported snapshot from <span className="font-medium">{imported.name}</span>,
+                    not live relay data.
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => setImported(null)}>
+                    Back to live data
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Card className="overflow-hidden">
               <CardContent className="p-0">
-                {isLoading && <GraphVisualizationSkeleton className="min-h-[600px]" />}
+                {(isLoading || (isCrawling && data?.nodes.length === 0)) && (
+                  <div className="relative">
+                    <GraphVisualizationSkeleton className="min-h-[600px]" />
+                    {isCrawling && (
+                      <CrawlProgressBar
+                        progress={socialGraph.data?.progress}
+                        isCrawling
+                        onStop={socialGraph.cancel}
+                        onRestart={() => socialGraph.refetch()}
+                      />
+                    )}
+                  </div>
+                )}
 
                 {isError && (
                   <div className="min-h-[600px] flex items-center justify-center">
@@ -272,15 +986,22 @@ export default function SocialGraph() {
                   </div>
                 )}
 
-                {!isLoading && !isError && data && data.nodes.length === 0 && (
+                {!isLoading && !isCrawling && !isError && (data ? data.nodes.length === 0 : mode === 'path') && (
                   <div className="min-h-[600px] flex items-center justify-center">
                     <Card className="border-dashed max-w-md">
                       <CardContent className="py-12 px-8 text-center">
                         <div className="space-y-4">
                           <Network className="h-12 w-12 mx-auto text-muted-foreground" />
                           <p className="text-muted-foreground">
-                            No connections found. Try adjusting your parameters or
-                            selecting a different user.
+                            {mode === 'path'
+                              ? !pathEnds
+                                ? 'Enter two users to see how they are connected.'
+                                : pathFinder.data?.timedOut
+                                ? 'The search timed out before finding a path. Try again, or connect to more relays.'
+                                : pathFinder.data?.incomplete
+                                ? 'No path found within six hops, but some follow lists could not be loaded in full, so a path may still exist.'
+                                : 'No path found between these users within six hops.'
+                              : 'No connections found. Try adjusting your parameters or selecting a different user.'}
                           </p>
                         </div>
                       </CardContent>
@@ -288,18 +1009,51 @@ export default function SocialGraph() {
                   </div>
                 )}
 
-                {!isLoading && !isError && data && data.nodes.length > 0 && (
+                {!isLoading && !isError && displayData && data && data.nodes.length > 0 && (
                   <div className="relative">
                     <GraphVisualization
-                      data={data}
+                      data={displayData}
                       onNodeClick={handleNodeClick}
+                      highlightedPath={mode === 'path' ? pathFinder.data?.paths[selectedPath] : undefined}
+                      layout={layout}
                       className="min-h-[600px]"
                     />
+                    {topicMode && selectedNodeId && topicGraph.data?.topics.get(selectedNodeId) && (
+                      <TopicUsersCard
+                        topic={topicGraph.data.topics.get(selectedNodeId)!}
+                        profiles={socialGraph.data?.profiles}
+                        onSelectUser={(pubkey) => navigate(`/${nip19.npubEncode(pubkey)}`)}
+                        onClose={() => setSelectedNodeId(null)}
+                      />
+                    )}
+                    {selectedNode && !topicMode && (
+                      <NodeActionsCard
+                        node={selectedNode}
+                        isExpanding={pending.has(selectedNode.id)}
+                        onExpand={isImported ? undefined : () => handleExpand(selectedNode.id)}
+                        onCollapse={() => collapse(selectedNode.id)}
+                        onViewProfile={isHexPubkey(selectedNode.id)
+                          ? () => navigate(`/${nip19.npubEncode(selectedNode.id)}`)
+                          : undefined}
+                        onClose={() => setSelectedNodeId(null)}
+                      />
+                    )}
+                    {followCrawl && (
+                      <CrawlProgressBar
+                        progress={socialGraph.data?.progress}
+                        isCrawling={isCrawling}
+                        onStop={socialGraph.cancel}
+                        onRestart={() => socialGraph.refetch()}
+                      />
+                    )}
                     <div className="absolute bottom-4 left-4 bg-white/90 dark:bg-slate-800/90 backdrop-blur-sm rounded-lg p-3 text-xs space-y-1">
                       <p className="font-semibold">Interaction Tips</p>
                       <p className="text-muted-foreground">• Hover over nodes to see names</p>
-                      <p className="text-muted-foreground">• Click nodes to view profiles</p>
-                      <p className="text-muted-foreground">• Purple nodes are root users</p>
+                      <p className="text-muted-foreground">• Scroll or pinch to zoom, drag to pan</p>
+                      <p className="text-muted-foreground">• Drag nodes to move them; double-click to pin</p>
+                      {SOURCE_TIPS[activeSource].map(tip => (
+                        <p key={tip} className="text-muted-foreground">• {tip}</p>
+                      ))}
                     </div>
                   </div>
                 )}
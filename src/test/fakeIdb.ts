@@ -0,0 +1,39 @@
+// In-memory stand-in for the parts of `idb` the stores use; jsdom has no IndexedDB.
+// Use with `vi.mock('idb', () => import('@/test/fakeIdb'))` and clear `stores` between tests.
+
+/** Object stores of the in-memory database, by name */
+export const stores = new Map<string, Map<string, unknown>>();
+
+const store = (name: string) => {
+  const data = stores.get(name)!;
+  return {
+    get: async (key: string) => data.get(key),
+    put: async (value: unknown, key: string) => void data.set(key, value),
+    clear: async () => data.clear(),
+  };
+};
+
+const db = {
+  objectStoreNames: { contains: (name: string) => stores.has(name) },
+  createObjectStore: (name: string) => {
+    stores.set(name, new Map());
+    return { createIndex: () => {} };
+  },
+  transaction: (names: string | string[]) => ({
+    store: store(Array.isArray(names) ? names[0] : names),
+    objectStore: store,
+    done: Promise.resolve(),
+  }),
+  get: async (name: string, key: string) => stores.get(name)!.get(key),
+  countFromIndex: async (name: string, _index: string, kind: number) =>
+    [...stores.get(name)!.values()].filter(record => (record as { kind: number }).kind === kind).length,
+};
+
+export async function openDB(
+  _name: string,
+  _version: number,
+  { upgrade }: { upgrade: (database: typeof db) => void }
+) {
+  upgrade(db);
+  return db;
+}
@@ -0,0 +1,80 @@
+// Random graphs and an exact reference step for testing and benchmarking the force layout
+
+import type { GraphData, GraphNode } from '@/lib/forceGraph';
+
+export const WIDTH = 2000;
+export const HEIGHT = 2000;
+
+// Deterministic pseudo-random numbers, so layouts are reproducible
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+export function randomGraph(nodeCount: number, linkCount: number, seed = 1): GraphData {
+  const next = random(seed);
+  const nodes: GraphNode[] = Array.from({ length: nodeCount }, (_, i) => ({
+    id: `n${i}`,
+    label: `n${i}`,
+    x: 1 + next() * (WIDTH - 2),
+    y: 1 + next() * (HEIGHT - 2),
+    vx: 0,
+    vy: 0,
+    radius: 5,
+    color: '#3b82f6',
+  }));
+  const links = Array.from({ length: linkCount }, () => ({
+    source: nodes[Math.floor(next() * nodeCount)].id,
+    target: nodes[Math.floor(next() * nodeCount)].id,
+  }));
+  return { nodes, links };
+}
+
+/** Reference step with exact pairwise repulsion and a scan of every link per node */
+export function pairwiseTick(data: GraphData): void {
+  const { nodes, links } = data;
+
+  for (const node of nodes) {
+    let fx = 0;
+    let fy = 0;
+
+    for (const other of nodes) {
+      if (node.id === other.id) continue;
+      const dx = other.x - node.x;
+      const dy = other.y - node.y;
+      const distanceSquared = dx * dx + dy * dy;
+      if (distanceSquared === 0) continue;
+      const distance = Math.sqrt(distanceSquared);
+      fx -= (dx / distance) * (5000 / distanceSquared);
+      fy -= (dy / distance) * (5000 / distanceSquared);
+    }
+
+    for (const link of links) {
+      const otherId = link.source === node.id ? link.target : link.target === node.id ? link.source : null;
+      const other = otherId ? nodes.find(n => n.id === otherId) : undefined;
+      if (other) {
+        fx += (other.x - node.x) * 0.01;
+        fy += (other.y - node.y) * 0.01;
+      }
+    }
+
+    fx += (WIDTH / 2 - node.x) * 0.01;
+    fy += (HEIGHT / 2 - node.y) * 0.01;
+    node.vx = (node.vx + fx) * 0.8;
+    node.vy = (node.vy + fy) * 0.8;
+
+    const speed = Math.hypot(node.vx, node.vy);
+    if (speed > 50) {
+      node.vx *= 50 / speed;
+      node.vy *= 50 / speed;
+    }
+  }
+
+  for (const node of nodes) {
+    node.x += node.vx;
+    node.y += node.vy;
+  }
+}